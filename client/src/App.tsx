@@ -7,6 +7,9 @@ import HomePage from "@/pages/home-page";
 import AuthPage from "@/pages/auth-page";
 import DashboardPage from "@/pages/dashboard-page";
 import PostPage from "@/pages/post-page";
+import UserPage from "@/pages/user-page";
+import VerifyEmailPage from "@/pages/verify-email-page";
+import ExtendPostPage from "@/pages/extend-post-page";
 import TestApiPage from "@/pages/test-api-page";
 import { ProtectedRoute } from "./lib/protected-route";
 import { AuthProvider } from "./hooks/use-auth";
@@ -20,6 +23,9 @@ function Router() {
         <Route path="/" component={HomePage} />
         <Route path="/auth" component={AuthPage} />
         <Route path="/post/:id" component={PostPage} />
+        <Route path="/post/:id/extend" component={ExtendPostPage} />
+        <Route path="/users/:id" component={UserPage} />
+        <Route path="/verify-email" component={VerifyEmailPage} />
         <ProtectedRoute path="/dashboard" component={DashboardPage} />
         <ProtectedRoute path="/test-api" component={TestApiPage} />
         <Route component={NotFound} />
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ApiKeyScope, PublicApiKey } from "@shared/schema";
+import { KeyRound, Trash2 } from "lucide-react";
+
+// Creates, lists and revokes the personal API keys scripts use instead of logging in
+export default function ApiKeySettings() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [allowWrite, setAllowWrite] = useState(false);
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<{ status: string; data: { apiKeys: PublicApiKey[] } }>({
+    queryKey: ["/api/api-keys"],
+  });
+  const apiKeys = data?.data?.apiKeys || [];
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { name: string; scope: ApiKeyScope }) => {
+      const res = await apiRequest("POST", "/api/api-keys", data);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setName("");
+      setAllowWrite(false);
+      setNewKey(data.data.key);
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create API key",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/api-keys/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      toast({
+        title: "API key revoked"
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revoke API key",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <div className="space-y-6">
+      {newKey && (
+        <div className="space-y-2 rounded-md border border-green-200 bg-green-50 p-4">
+          <p className="text-sm text-green-800">
+            Copy your new API key now. It won't be shown again.
+          </p>
+          <p className="font-mono text-sm break-all">{newKey}</p>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(newKey)}>
+              Copy
+            </Button>
+            <Button size="sm" onClick={() => setNewKey(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <form
+        className="space-y-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          createMutation.mutate({ name, scope: allowWrite ? "write" : "read" });
+        }}
+      >
+        <div className="space-y-2">
+          <Label htmlFor="api-key-name">Key name</Label>
+          <Input
+            id="api-key-name"
+            placeholder="Deploy script"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="api-key-write"
+            checked={allowWrite}
+            onCheckedChange={(checked) => setAllowWrite(checked === true)}
+          />
+          <Label htmlFor="api-key-write" className="font-normal">
+            Allow write access (create, edit and delete content)
+          </Label>
+        </div>
+        <div className="flex justify-end">
+          <Button type="submit" disabled={!name.trim() || createMutation.isPending}>
+            {createMutation.isPending ? "Creating..." : "Create Key"}
+          </Button>
+        </div>
+      </form>
+
+      <div className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : apiKeys.length === 0 ? (
+          <p className="text-sm text-gray-500">You don't have any API keys yet.</p>
+        ) : (
+          apiKeys.map((apiKey) => (
+            <div key={apiKey.id} className="flex items-center justify-between rounded-md border p-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <KeyRound className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                  <span className="font-medium truncate">{apiKey.name}</span>
+                  <Badge variant={apiKey.scope === "write" ? "default" : "secondary"}>{apiKey.scope}</Badge>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  <span className="font-mono">{apiKey.prefix}…</span>
+                  {" · "}
+                  {apiKey.lastUsedAt
+                    ? `Last used ${formatDistanceToNow(new Date(apiKey.lastUsedAt), { addSuffix: true })}`
+                    : "Never used"}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => revokeMutation.mutate(apiKey.id)}
+                disabled={revokeMutation.isPending}
+                aria-label={`Revoke ${apiKey.name}`}
+              >
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
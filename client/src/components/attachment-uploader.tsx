@@ -0,0 +1,209 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { FileText, ImagePlus, Loader2, Paperclip, Trash2, Upload } from "lucide-react";
+import { Attachment, ALLOWED_ATTACHMENT_TYPES, MAX_ATTACHMENT_BYTES } from "@shared/schema";
+
+interface AttachmentUploaderProps {
+  // Existing post whose attachments are listed; omitted while creating a post
+  postId?: number;
+  // New uploads; the parent links them to the post when it is saved
+  uploads: Attachment[];
+  onUploadsChange: (uploads: Attachment[]) => void;
+  // Insert Markdown referencing an attachment into the post body
+  onInsert: (markdown: string) => void;
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function AttachmentUploader({ postId, uploads, onUploadsChange, onInsert }: AttachmentUploaderProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const { data } = useQuery<{ status: string; data: { attachments: Attachment[] } }>({
+    queryKey: ["/api/posts", postId?.toString(), "attachments"],
+    enabled: !!postId,
+  });
+
+  const attachments = [...(data?.data.attachments || []), ...uploads];
+
+  const deleteMutation = useMutation({
+    mutationFn: async (attachment: Attachment) => {
+      const res = await apiRequest("DELETE", `/api/attachments/${attachment.id}`);
+      return res.json();
+    },
+    onSuccess: (_data, attachment) => {
+      onUploadsChange(uploads.filter(upload => upload.id !== attachment.id));
+      if (postId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/posts", postId.toString(), "attachments"] });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to remove attachment",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  // multipart/form-data can't go through apiRequest, which always sends JSON
+  const uploadFiles = async (files: File[]) => {
+    const uploaded: Attachment[] = [];
+    setIsUploading(true);
+
+    for (const file of files) {
+      if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+        toast({
+          title: `Can't upload ${file.name}`,
+          description: "Only images, PDFs and plain text files are supported.",
+          variant: "destructive"
+        });
+        continue;
+      }
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        toast({
+          title: `Can't upload ${file.name}`,
+          description: `Files can be at most ${formatSize(MAX_ATTACHMENT_BYTES)}.`,
+          variant: "destructive"
+        });
+        continue;
+      }
+
+      const formData = new FormData();
+      formData.append("file", file);
+
+      try {
+        const res = await fetch("/api/attachments", {
+          method: "POST",
+          body: formData,
+          credentials: "include",
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error?.message || res.statusText);
+        }
+        uploaded.push(data.data.attachment);
+      } catch (error) {
+        toast({
+          title: `Failed to upload ${file.name}`,
+          description: (error as Error).message,
+          variant: "destructive"
+        });
+      }
+    }
+
+    setIsUploading(false);
+    if (uploaded.length > 0) {
+      onUploadsChange([...uploads, ...uploaded]);
+    }
+  };
+
+  const insertMarkdown = (attachment: Attachment) => {
+    const url = `/api/attachments/${attachment.id}`;
+    onInsert(attachment.mimeType.startsWith("image/")
+      ? `![${attachment.filename}](${url})`
+      : `[${attachment.filename}](${url})`);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        className={cn(
+          "flex flex-col items-center justify-center rounded-md border-2 border-dashed p-4 text-center cursor-pointer transition-colors",
+          isDragging ? "border-primary bg-primary-50" : "border-gray-200 hover:border-gray-300"
+        )}
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          uploadFiles(Array.from(e.dataTransfer.files));
+        }}
+      >
+        {isUploading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        ) : (
+          <Upload className="h-6 w-6 text-muted-foreground" />
+        )}
+        <p className="mt-1 text-sm text-muted-foreground">
+          Drag and drop files here, or click to browse
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Images, PDFs and text files up to {formatSize(MAX_ATTACHMENT_BYTES)}
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ALLOWED_ATTACHMENT_TYPES.join(",")}
+          className="hidden"
+          onChange={(e) => {
+            uploadFiles(Array.from(e.target.files || []));
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {attachments.length > 0 && (
+        <ul className="divide-y rounded-md border">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+              <div className="flex items-center gap-2 min-w-0">
+                {attachment.mimeType.startsWith("image/") ? (
+                  <img
+                    src={`/api/attachments/${attachment.id}`}
+                    alt={attachment.filename}
+                    className="h-8 w-8 rounded object-cover shrink-0"
+                  />
+                ) : (
+                  <FileText className="h-5 w-5 text-muted-foreground shrink-0" />
+                )}
+                <span className="truncate">{attachment.filename}</span>
+                <span className="text-xs text-muted-foreground shrink-0">{formatSize(attachment.size)}</span>
+              </div>
+              <div className="flex items-center shrink-0">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="flex items-center gap-1"
+                  onClick={() => insertMarkdown(attachment)}
+                >
+                  {attachment.mimeType.startsWith("image/") ? (
+                    <ImagePlus className="h-4 w-4" />
+                  ) : (
+                    <Paperclip className="h-4 w-4" />
+                  )}
+                  Insert
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(attachment)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -8,11 +8,12 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
+import MarkdownEditor from "./markdown-editor";
 
 type CommentFormProps = {
   postId: number;
   commentId?: number;
+  parentId?: number;
   initialValue?: string;
   onSuccess?: () => void;
   onCancel?: () => void;
@@ -27,6 +28,7 @@ type CommentFormValues = z.infer<typeof commentSchema>;
 export default function CommentForm({
   postId,
   commentId,
+  parentId,
   initialValue = "",
   onSuccess,
   onCancel
@@ -34,6 +36,7 @@ export default function CommentForm({
   const { toast } = useToast();
   const { user } = useAuth();
   const isEditing = !!commentId;
+  const isReply = !!parentId;
   
   const form = useForm<CommentFormValues>({
     resolver: zodResolver(commentSchema),
@@ -44,14 +47,15 @@ export default function CommentForm({
   
   const createCommentMutation = useMutation({
     mutationFn: async (data: CommentFormValues) => {
-      const res = await apiRequest("POST", `/api/posts/${postId}/comments`, data);
+      const url = isReply ? `/api/comments/${parentId}/replies` : `/api/posts/${postId}/comments`;
+      const res = await apiRequest("POST", url, data);
       return res.json();
     },
     onSuccess: (data) => {
       if (data.status === "success") {
         toast({
-          title: "Comment posted",
-          description: "Your comment has been added."
+          title: isReply ? "Reply posted" : "Comment posted",
+          description: isReply ? "Your reply has been added." : "Your comment has been added."
         });
         form.reset({ body: "" });
         queryClient.invalidateQueries({ queryKey: [`/api/posts/${postId}/comments`] });
@@ -124,10 +128,12 @@ export default function CommentForm({
           render={({ field }) => (
             <FormItem>
               <FormControl>
-                <Textarea 
-                  placeholder="Write your comment here..." 
-                  className="min-h-[100px]" 
-                  {...field} 
+                <MarkdownEditor 
+                  placeholder={isReply ? "Write your reply here..." : "Write your comment here..."} 
+                  className={isReply ? "min-h-[70px]" : "min-h-[100px]"} 
+                  value={field.value}
+                  onChange={field.onChange}
+                  onBlur={field.onBlur}
                 />
               </FormControl>
               <FormMessage />
@@ -136,7 +142,7 @@ export default function CommentForm({
         />
         
         <div className="flex justify-end space-x-2">
-          {isEditing && onCancel && (
+          {(isEditing || isReply) && onCancel && (
             <Button 
               type="button" 
               variant="outline" 
@@ -148,7 +154,7 @@ export default function CommentForm({
           <Button type="submit" disabled={isSubmitting}>
             {isSubmitting 
               ? (isEditing ? "Updating..." : "Posting...") 
-              : (isEditing ? "Update Comment" : "Post Comment")
+              : (isEditing ? "Update Comment" : isReply ? "Post Reply" : "Post Comment")
             }
           </Button>
         </div>
@@ -3,25 +3,37 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { formatDistanceToNow } from "date-fns";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { canModify } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { Pencil, Trash2, MessageSquare } from "lucide-react";
+import { Pencil, Trash2, MessageSquare, Reply, ChevronDown, ChevronRight } from "lucide-react";
 import CommentForm from "./comment-form";
-import { CommentWithAuthor } from "@shared/schema";
+import MarkdownContent from "./markdown-content";
+import { CommentThread, MAX_COMMENT_DEPTH } from "@shared/schema";
 
 interface CommentListProps {
   postId: number;
 }
 
+// Count visible comments in a set of threads, skipping trashed placeholders
+function countComments(threads: CommentThread[]): number {
+  return threads.reduce(
+    (total, thread) => total + (thread.deletedAt ? 0 : 1) + countComments(thread.replies),
+    0
+  );
+}
+
 export default function CommentList({ postId }: CommentListProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const [editingCommentId, setEditingCommentId] = useState<number | null>(null);
+  const [replyingToId, setReplyingToId] = useState<number | null>(null);
+  const [collapsedIds, setCollapsedIds] = useState<Set<number>>(new Set());
   
-  const { data, isLoading, error } = useQuery<{ status: string; data: { comments: CommentWithAuthor[] } }>({
+  const { data, isLoading, error } = useQuery<{ status: string; data: { comments: CommentThread[] } }>({
     queryKey: [`/api/posts/${postId}/comments`],
   });
   
@@ -34,9 +46,10 @@ export default function CommentList({ postId }: CommentListProps) {
       if (data.status === "success") {
         toast({
           title: "Comment deleted",
-          description: "Your comment has been deleted successfully."
+          description: "Your comment has been moved to the trash."
         });
         queryClient.invalidateQueries({ queryKey: [`/api/posts/${postId}/comments`] });
+        queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       } else {
         throw new Error(data.error?.message || "Failed to delete comment");
       }
@@ -54,6 +67,18 @@ export default function CommentList({ postId }: CommentListProps) {
     deleteCommentMutation.mutate(commentId);
   };
   
+  const toggleCollapsed = (commentId: number) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(commentId)) {
+        next.delete(commentId);
+      } else {
+        next.add(commentId);
+      }
+      return next;
+    });
+  };
+  
   if (isLoading) {
     return (
       <div className="flex justify-center py-4">
@@ -80,13 +105,152 @@ export default function CommentList({ postId }: CommentListProps) {
   }
   
   const comments = data?.data.comments || [];
+  const commentCount = countComments(comments);
+  
+  const renderComment = (comment: CommentThread) => {
+    const isCollapsed = collapsedIds.has(comment.id);
+    const replyCount = countComments(comment.replies);
+    
+    return (
+      <div key={comment.id} className="space-y-3">
+        <Card className="overflow-hidden">
+          {editingCommentId === comment.id ? (
+            <CardContent className="pt-6">
+              <CommentForm 
+                postId={postId}
+                commentId={comment.id}
+                initialValue={comment.body}
+                onSuccess={() => setEditingCommentId(null)}
+                onCancel={() => setEditingCommentId(null)}
+              />
+            </CardContent>
+          ) : comment.deletedAt ? (
+            <CardContent className="py-4">
+              <p className="text-sm italic text-muted-foreground">This comment was deleted.</p>
+            </CardContent>
+          ) : (
+            <CardContent className="pt-6">
+              <div className="flex items-start justify-between mb-4">
+                <div className="flex items-center">
+                  <Avatar className="h-8 w-8 mr-2">
+                    <AvatarFallback>
+                      {comment.author.name.split(" ").map(n => n[0]).join("").toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <div className="font-medium">{comment.author.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                    </div>
+                  </div>
+                </div>
+                
+                {canModify(user, comment.author.id) && (
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setEditingCommentId(comment.id)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon">
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This will move your comment to the trash. You can restore it from your dashboard.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction 
+                            onClick={() => handleDelete(comment.id)}
+                            className="bg-red-500 hover:bg-red-600"
+                            disabled={deleteCommentMutation.isPending}
+                          >
+                            {deleteCommentMutation.isPending ? "Deleting..." : "Delete"}
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )}
+              </div>
+              
+              <MarkdownContent
+                html={comment.bodyHtml}
+                fallback={comment.body}
+                className="prose-sm text-gray-700 mb-2"
+              />
+              
+              {/* Replies stop at the maximum nesting depth */}
+              {user && comment.depth < MAX_COMMENT_DEPTH && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="flex items-center gap-1 -ml-2 text-muted-foreground"
+                  onClick={() => setReplyingToId(replyingToId === comment.id ? null : comment.id)}
+                >
+                  <Reply className="h-4 w-4" />
+                  Reply
+                </Button>
+              )}
+            </CardContent>
+          )}
+        </Card>
+        
+        {(replyingToId === comment.id || comment.replies.length > 0) && (
+          <div className="ml-4 pl-4 border-l-2 border-gray-200 space-y-3">
+            {replyingToId === comment.id && (
+              <CommentForm 
+                postId={postId}
+                parentId={comment.id}
+                onSuccess={() => {
+                  setReplyingToId(null);
+                  setCollapsedIds(prev => {
+                    const next = new Set(prev);
+                    next.delete(comment.id);
+                    return next;
+                  });
+                }}
+                onCancel={() => setReplyingToId(null)}
+              />
+            )}
+            
+            {comment.replies.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="flex items-center gap-1 -ml-2 text-muted-foreground"
+                onClick={() => toggleCollapsed(comment.id)}
+              >
+                {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                {isCollapsed
+                  ? `Show ${replyCount} ${replyCount === 1 ? "reply" : "replies"}`
+                  : "Hide replies"}
+              </Button>
+            )}
+            
+            {!isCollapsed && comment.replies.map(renderComment)}
+          </div>
+        )}
+      </div>
+    );
+  };
   
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-2">
         <MessageSquare className="h-5 w-5" />
         <h3 className="text-lg font-medium">
-          {comments.length} {comments.length === 1 ? "Comment" : "Comments"}
+          {commentCount} {commentCount === 1 ? "Comment" : "Comments"}
         </h3>
       </div>
       
@@ -98,88 +262,10 @@ export default function CommentList({ postId }: CommentListProps) {
         />
       </div>
       
-      {/* Comments list */}
+      {/* Comment threads */}
       {comments.length > 0 ? (
         <div className="space-y-4">
-          {comments.map(comment => (
-            <Card key={comment.id} className="overflow-hidden">
-              {editingCommentId === comment.id ? (
-                <CardContent className="pt-6">
-                  <CommentForm 
-                    postId={postId}
-                    commentId={comment.id}
-                    initialValue={comment.body}
-                    onSuccess={() => setEditingCommentId(null)}
-                    onCancel={() => setEditingCommentId(null)}
-                  />
-                </CardContent>
-              ) : (
-                <>
-                  <CardContent className="pt-6">
-                    <div className="flex items-start justify-between mb-4">
-                      <div className="flex items-center">
-                        <Avatar className="h-8 w-8 mr-2">
-                          <AvatarFallback>
-                            {comment.author.name.split(" ").map(n => n[0]).join("").toUpperCase()}
-                          </AvatarFallback>
-                        </Avatar>
-                        <div>
-                          <div className="font-medium">{comment.author.name}</div>
-                          <div className="text-xs text-muted-foreground">
-                            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
-                          </div>
-                        </div>
-                      </div>
-                      
-                      {user && user.id === comment.author.id && (
-                        <div className="flex space-x-2">
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => setEditingCommentId(comment.id)}
-                          >
-                            <Pencil className="h-4 w-4" />
-                          </Button>
-                          
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button variant="ghost" size="icon">
-                                <Trash2 className="h-4 w-4 text-red-500" />
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  This will permanently delete your comment. This action cannot be undone.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction 
-                                  onClick={() => handleDelete(comment.id)}
-                                  className="bg-red-500 hover:bg-red-600"
-                                  disabled={deleteCommentMutation.isPending}
-                                >
-                                  {deleteCommentMutation.isPending ? "Deleting..." : "Delete"}
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
-                        </div>
-                      )}
-                    </div>
-                    
-                    <div className="text-gray-700">
-                      {comment.body.split("\n").map((paragraph, i) => (
-                        <p key={i} className="mb-2">{paragraph}</p>
-                      ))}
-                    </div>
-                  </CardContent>
-                </>
-              )}
-            </Card>
-          ))}
+          {comments.map(renderComment)}
         </div>
       ) : (
         <div className="bg-gray-50 rounded-lg p-6 text-center">
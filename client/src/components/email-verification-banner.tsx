@@ -0,0 +1,55 @@
+import { useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { MailWarning } from "lucide-react";
+
+// Reminds users who haven't confirmed their email address yet, with a way to get a new link
+export default function EmailVerificationBanner() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/verify-email/resend");
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Verification email sent",
+        description: `Check ${user?.email} for a link to verify your address.`
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send verification email",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (!user || user.emailVerifiedAt) return null;
+
+  return (
+    <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-8">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center">
+          <MailWarning className="h-5 w-5 text-yellow-500 flex-shrink-0" />
+          <p className="ml-3 text-sm text-yellow-700">
+            Please verify your email address. We sent a link to {user.email}.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => resendMutation.mutate()}
+          disabled={resendMutation.isPending}
+        >
+          {resendMutation.isPending ? "Sending..." : "Resend link"}
+        </Button>
+      </div>
+    </div>
+  );
+}
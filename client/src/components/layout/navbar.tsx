@@ -11,6 +11,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { BookOpen, Menu, X, FileText, Home, LayoutDashboard, Terminal } from "lucide-react";
+import NotificationBell from "@/components/notification-bell";
 
 export default function Navbar() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -65,6 +66,7 @@ export default function Navbar() {
           
           {/* Desktop right section */}
           <div className="hidden md:flex items-center">
+            {user && <NotificationBell />}
             {user ? (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -108,6 +110,7 @@ export default function Navbar() {
           
           {/* Mobile menu button */}
           <div className="flex md:hidden">
+            {user && <NotificationBell />}
             <Button
               variant="ghost"
               size="icon"
@@ -0,0 +1,27 @@
+import { cn } from "@/lib/utils";
+
+interface MarkdownContentProps {
+  // Sanitized HTML rendered by the server; null for content written before Markdown support
+  html: string | null;
+  fallback: string;
+  className?: string;
+}
+
+export default function MarkdownContent({ html, fallback, className }: MarkdownContentProps) {
+  if (html === null) {
+    return (
+      <div className={cn("prose max-w-none", className)}>
+        {fallback.split("\n").map((paragraph, i) => (
+          <p key={i}>{paragraph}</p>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn("prose max-w-none prose-pre:bg-gray-50 prose-pre:text-gray-900", className)}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import MarkdownContent from "./markdown-content";
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+  placeholder?: string;
+  className?: string;
+}
+
+// Textarea with a preview tab rendered by the server, so it matches the stored HTML exactly
+export default function MarkdownEditor({ value, onChange, onBlur, placeholder, className }: MarkdownEditorProps) {
+  const [tab, setTab] = useState("write");
+  const [previewHtml, setPreviewHtml] = useState("");
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  // Re-render the preview 300ms after typing stops, only while it is visible
+  useEffect(() => {
+    if (tab !== "preview") return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const res = await apiRequest("POST", "/api/markdown/preview", { body: value });
+        const data = await res.json();
+        if (!cancelled) {
+          setPreviewHtml(data.data.html);
+          setPreviewError(null);
+        }
+      } catch (error) {
+        if (!cancelled) setPreviewError((error as Error).message);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [tab, value]);
+
+  return (
+    <Tabs value={tab} onValueChange={setTab}>
+      <TabsList className="mb-2">
+        <TabsTrigger value="write">Write</TabsTrigger>
+        <TabsTrigger value="preview">Preview</TabsTrigger>
+      </TabsList>
+      <TabsContent value="write" className="mt-0">
+        <Textarea
+          placeholder={placeholder}
+          className={className}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Markdown is supported: headings, lists, links and fenced code blocks.
+        </p>
+      </TabsContent>
+      <TabsContent value="preview" className="mt-0">
+        <div className={cn("rounded-md border px-3 py-2", className)}>
+          {previewError ? (
+            <p className="text-sm text-red-700">Failed to render preview: {previewError}</p>
+          ) : value.trim() === "" ? (
+            <p className="text-sm text-muted-foreground">Nothing to preview</p>
+          ) : (
+            <MarkdownContent html={previewHtml} fallback={value} />
+          )}
+        </div>
+      </TabsContent>
+    </Tabs>
+  );
+}
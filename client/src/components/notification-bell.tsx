@@ -0,0 +1,112 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Bell } from "lucide-react";
+import { NotificationWithDetails } from "@shared/schema";
+
+// Check for new notifications every minute while the app is open
+const NOTIFICATION_POLL_MS = 60 * 1000;
+
+function describe(notification: NotificationWithDetails): string {
+  const title = notification.post ? `"${notification.post.title}"` : "your post";
+
+  switch (notification.type) {
+    case "comment":
+      return `${notification.actor?.name ?? "Someone"} commented on ${title}`;
+    case "post_expiring":
+      return notification.postExpiresAt
+        ? `${title} expires ${formatDistanceToNow(new Date(notification.postExpiresAt), { addSuffix: true })}`
+        : `${title} is about to expire`;
+  }
+}
+
+export default function NotificationBell() {
+  const [, navigate] = useLocation();
+
+  const { data } = useQuery<{ status: string; data: { notifications: NotificationWithDetails[]; unreadCount: number } }>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: NOTIFICATION_POLL_MS,
+  });
+  const notifications = data?.data?.notifications || [];
+  const unreadCount = data?.data?.unreadCount || 0;
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: number[]) => {
+      const res = await apiRequest("POST", "/api/notifications/read", ids ? { ids } : {});
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    }
+  });
+
+  const openNotification = (notification: NotificationWithDetails) => {
+    if (!notification.readAt) markReadMutation.mutate([notification.id]);
+    navigate(`/post/${notification.postId}`);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative mr-2" aria-label={`Notifications (${unreadCount} unread)`}>
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-medium text-white">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto text-xs"
+              onClick={() => markReadMutation.mutate(undefined)}
+              disabled={markReadMutation.isPending}
+            >
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">You're all caught up.</p>
+        ) : (
+          notifications.map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              className="flex cursor-pointer items-start gap-2"
+              onClick={() => openNotification(notification)}
+            >
+              <span
+                className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${notification.readAt ? "bg-transparent" : "bg-primary-600"}`}
+              />
+              <div className="min-w-0">
+                <p className={`text-sm ${notification.readAt ? "text-gray-600" : "font-medium text-gray-900"}`}>
+                  {describe(notification)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                </p>
+              </div>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
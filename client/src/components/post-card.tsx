@@ -4,13 +4,16 @@ import { Link } from "wouter";
 import { formatDistanceToNow } from "date-fns";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { canModify } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { useExpiryWarningHours, isExpiringSoon } from "@/hooks/use-expiry-warning";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { MessageSquare, Clock, Pencil, Trash2, UserCircle } from "lucide-react";
+import { MessageSquare, Clock, Pencil, Trash2, UserCircle, CalendarClock } from "lucide-react";
+import MarkdownContent from "./markdown-content";
 import { PostWithDetails } from "@shared/schema";
 
 interface PostCardProps {
@@ -22,9 +25,10 @@ interface PostCardProps {
 export default function PostCard({ post, isDetailed = false, onEdit }: PostCardProps) {
   const { user } = useAuth();
   const { toast } = useToast();
+  const expiryWarningHours = useExpiryWarningHours();
   const [isDeleting, setIsDeleting] = useState(false);
   
-  const isAuthor = user && user.id === post.author.id;
+  const isAuthor = canModify(user, post.author.id);
   
   const deletePostMutation = useMutation({
     mutationFn: async () => {
@@ -35,9 +39,11 @@ export default function PostCard({ post, isDetailed = false, onEdit }: PostCardP
       if (data.status === "success") {
         toast({
           title: "Post deleted",
-          description: "Your post has been deleted successfully."
+          description: "Your post has been moved to the trash."
         });
         queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/drafts"] });
       } else {
         throw new Error(data.error?.message || "Failed to delete post");
       }
@@ -51,20 +57,45 @@ export default function PostCard({ post, isDetailed = false, onEdit }: PostCardP
     }
   });
   
+  // Give an expiring post another default lifetime from now
+  const extendPostMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/posts/${post.id}/extend`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Post extended",
+        description: "Your post will stay online for longer."
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to extend post",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+  
   const handleDelete = () => {
     setIsDeleting(true);
     deletePostMutation.mutate();
   };
   
-  // Calculate expiry time (24 hours from creation)
-  const expiryTime = new Date(post.createdAt);
-  expiryTime.setHours(expiryTime.getHours() + 24);
-  const timeLeft = formatDistanceToNow(expiryTime, { addSuffix: true });
+  // Expiry time is stored on the post; null means it never expires
+  const expiryTime = post.expiresAt ? new Date(post.expiresAt) : null;
+  const timeLeft = expiryTime ? formatDistanceToNow(expiryTime, { addSuffix: true }) : null;
   const formattedCreatedAt = formatDistanceToNow(new Date(post.createdAt), { addSuffix: true });
   
-  // Check if post is expiring soon (less than 2 hours left)
-  const now = new Date();
-  const isExpiringSoon = ((expiryTime.getTime() - now.getTime()) / (1000 * 60 * 60)) < 2;
+  const expiringSoon = isExpiringSoon(post.expiresAt, expiryWarningHours);
+  
+  // Unpublished posts only start their lifetime once they go live
+  const isPublished = post.status === "published";
+  const publishTime = post.status === "scheduled" && post.publishAt
+    ? formatDistanceToNow(new Date(post.publishAt), { addSuffix: true })
+    : null;
   
   return (
     <Card className="overflow-hidden">
@@ -100,7 +131,7 @@ export default function PostCard({ post, isDetailed = false, onEdit }: PostCardP
                   <AlertDialogHeader>
                     <AlertDialogTitle>Are you sure?</AlertDialogTitle>
                     <AlertDialogDescription>
-                      This will permanently delete your post. This action cannot be undone.
+                      This will move your post to the trash. You can restore it from your dashboard.
                     </AlertDialogDescription>
                   </AlertDialogHeader>
                   <AlertDialogFooter>
@@ -127,15 +158,36 @@ export default function PostCard({ post, isDetailed = false, onEdit }: PostCardP
                   {post.author.name.split(" ").map(n => n[0]).join("").toUpperCase()}
                 </AvatarFallback>
               </Avatar>
-              {post.author.name}
+              <Link href={`/users/${post.author.id}`}>
+                <a className="hover:text-primary-600 transition-colors">{post.author.name}</a>
+              </Link>
             </div>
             
-            <div className="flex items-center mr-4">
-              <Clock className="h-4 w-4 mr-1" />
-              <span className={isExpiringSoon ? "text-red-500 font-medium" : ""}>
-                Expires {timeLeft}
-              </span>
-            </div>
+            {isPublished ? (
+              <div className="flex items-center mr-4">
+                <Clock className="h-4 w-4 mr-1" />
+                <span className={expiringSoon ? "text-red-500 font-medium" : ""}>
+                  {timeLeft ? `Expires ${timeLeft}` : "Never expires"}
+                </span>
+                {isAuthor && expiringSoon && (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 ml-2"
+                    onClick={() => extendPostMutation.mutate()}
+                    disabled={extendPostMutation.isPending}
+                  >
+                    {extendPostMutation.isPending ? "Extending..." : "Extend"}
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <div className="flex items-center mr-4">
+                <CalendarClock className="h-4 w-4 mr-1" />
+                <Badge variant="outline" className="text-xs capitalize mr-1">{post.status}</Badge>
+                {publishTime && <span>Publishes {publishTime}</span>}
+              </div>
+            )}
             
             <div className="flex items-center">
               <MessageSquare className="h-4 w-4 mr-1" />
@@ -155,20 +207,16 @@ export default function PostCard({ post, isDetailed = false, onEdit }: PostCardP
       
       <CardContent>
         {isDetailed ? (
-          <div className="prose max-w-none">
-            {post.body.split("\n").map((paragraph, i) => (
-              <p key={i}>{paragraph}</p>
-            ))}
-          </div>
+          <MarkdownContent html={post.bodyHtml} fallback={post.body} />
         ) : (
-          <p className="text-gray-700 line-clamp-3">{post.body}</p>
+          <p className="text-gray-700 line-clamp-3">{post.excerpt ?? post.body}</p>
         )}
       </CardContent>
       
       {!isDetailed && (
         <CardFooter className="border-t pt-3 flex justify-between">
           <div className="text-xs text-muted-foreground">
-            Posted {formattedCreatedAt}
+            {isPublished ? `Posted ${formattedCreatedAt}` : `Created ${formattedCreatedAt}`}
           </div>
           <Link href={`/post/${post.id}`}>
             <Button variant="outline" size="sm">
@@ -1,7 +1,8 @@
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation } from "@tanstack/react-query";
-import { insertPostSchema } from "@shared/schema";
+import { insertPostSchema, DEFAULT_POST_TTL_HOURS, Attachment } from "@shared/schema";
 import { z } from "zod";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -9,8 +10,28 @@ import { useToast } from "@/hooks/use-toast";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { X } from "lucide-react";
+import MarkdownEditor from "./markdown-editor";
+import AttachmentUploader from "./attachment-uploader";
+import { format } from "date-fns";
+
+// Expiry choices offered in the form, in hours ("never" publishes an evergreen post)
+const expiryOptions = [
+  { value: "1", label: "1 hour" },
+  { value: "6", label: "6 hours" },
+  { value: "24", label: "24 hours" },
+  { value: "72", label: "3 days" },
+  { value: "168", label: "7 days" },
+  { value: "never", label: "Never expire" },
+];
+
+// Publishing choices; scheduled posts also need a publish time
+const statusOptions = [
+  { value: "published", label: "Publish now" },
+  { value: "draft", label: "Save as draft" },
+  { value: "scheduled", label: "Schedule" },
+];
 
 type PostFormProps = {
   initialData?: z.infer<typeof insertPostSchema>;
@@ -21,11 +42,15 @@ type PostFormProps = {
 export default function PostForm({ initialData, postId, onSuccess }: PostFormProps) {
   const { toast } = useToast();
   const { user } = useAuth();
+  const [uploads, setUploads] = useState<Attachment[]>([]);
   
   const defaultValues = initialData || {
     title: "",
     body: "",
-    tags: [""] // At least one empty tag field
+    tags: [""], // At least one empty tag field
+    ttlHours: DEFAULT_POST_TTL_HOURS,
+    status: "published" as const,
+    publishAt: null
   };
   
   const form = useForm<z.infer<typeof insertPostSchema>>({
@@ -35,6 +60,7 @@ export default function PostForm({ initialData, postId, onSuccess }: PostFormPro
   
   const isEditing = !!postId;
   const tags = form.watch("tags");
+  const status = form.watch("status") ?? "published";
   
   const createPostMutation = useMutation({
     mutationFn: async (data: z.infer<typeof insertPostSchema>) => {
@@ -45,10 +71,16 @@ export default function PostForm({ initialData, postId, onSuccess }: PostFormPro
       if (data.status === "success") {
         toast({
           title: "Post created successfully",
-          description: "Your post has been published."
+          description: status === "draft"
+            ? "Your draft has been saved."
+            : status === "scheduled"
+              ? "Your post has been scheduled."
+              : "Your post has been published."
         });
         queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/drafts"] });
         form.reset(defaultValues);
+        setUploads([]);
         if (onSuccess) onSuccess();
       } else {
         throw new Error(data.error?.message || "Failed to create post");
@@ -76,6 +108,8 @@ export default function PostForm({ initialData, postId, onSuccess }: PostFormPro
         });
         queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
         queryClient.invalidateQueries({ queryKey: ["/api/posts", postId?.toString()] });
+        queryClient.invalidateQueries({ queryKey: ["/api/drafts"] });
+        setUploads([]);
         if (onSuccess) onSuccess();
       } else {
         throw new Error(data.error?.message || "Failed to update post");
@@ -91,10 +125,11 @@ export default function PostForm({ initialData, postId, onSuccess }: PostFormPro
   });
   
   const onSubmit = (data: z.infer<typeof insertPostSchema>) => {
-    // Filter out empty tags
+    // Filter out empty tags and link any files uploaded while editing
     const filteredData = {
       ...data,
-      tags: data.tags.filter(tag => tag.trim() !== "")
+      tags: data.tags.filter(tag => tag.trim() !== ""),
+      attachmentIds: uploads.map(upload => upload.id)
     };
     
     if (isEditing) {
@@ -162,10 +197,12 @@ export default function PostForm({ initialData, postId, onSuccess }: PostFormPro
             <FormItem>
               <FormLabel>Content</FormLabel>
               <FormControl>
-                <Textarea 
+                <MarkdownEditor 
                   placeholder="Write your post content here..." 
                   className="min-h-[200px]" 
-                  {...field} 
+                  value={field.value}
+                  onChange={field.onChange}
+                  onBlur={field.onBlur}
                 />
               </FormControl>
               <FormMessage />
@@ -173,6 +210,21 @@ export default function PostForm({ initialData, postId, onSuccess }: PostFormPro
           )}
         />
         
+        <div>
+          <FormLabel>Attachments</FormLabel>
+          <div className="mt-2">
+            <AttachmentUploader
+              postId={postId}
+              uploads={uploads}
+              onUploadsChange={setUploads}
+              onInsert={(markdown) => {
+                const body = form.getValues("body");
+                form.setValue("body", body ? `${body}\n\n${markdown}` : markdown, { shouldDirty: true });
+              }}
+            />
+          </div>
+        </div>
+        
         <div>
           <div className="flex justify-between items-center mb-2">
             <FormLabel>Tags</FormLabel>
@@ -231,11 +283,92 @@ export default function PostForm({ initialData, postId, onSuccess }: PostFormPro
           </p>
         </div>
         
+        <FormField
+          control={form.control}
+          name="ttlHours"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Expires after</FormLabel>
+              <Select
+                value={field.value === undefined ? "keep" : field.value === null ? "never" : String(field.value)}
+                onValueChange={(value) => {
+                  if (value === "keep") field.onChange(undefined);
+                  else field.onChange(value === "never" ? null : parseInt(value));
+                }}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select expiry" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {isEditing && (
+                    <SelectItem value="keep">Keep current expiry</SelectItem>
+                  )}
+                  {expiryOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        
+        <FormField
+          control={form.control}
+          name="status"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Publishing</FormLabel>
+              <Select value={field.value ?? "published"} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select publishing option" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {statusOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        
+        {status === "scheduled" && (
+          <FormField
+            control={form.control}
+            name="publishAt"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Publish at</FormLabel>
+                <FormControl>
+                  <Input
+                    type="datetime-local"
+                    value={field.value ? format(new Date(field.value), "yyyy-MM-dd'T'HH:mm") : ""}
+                    onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : null)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        
         <div className="flex justify-end">
           <Button type="submit" disabled={isSubmitting}>
             {isSubmitting 
-              ? (isEditing ? "Updating..." : "Posting...") 
-              : (isEditing ? "Update Post" : "Create Post")
+              ? (isEditing ? "Updating..." : "Saving...") 
+              : isEditing
+                ? "Update Post"
+                : status === "draft" ? "Save Draft" : status === "scheduled" ? "Schedule Post" : "Create Post"
             }
           </Button>
         </div>
@@ -245,7 +378,7 @@ export default function PostForm({ initialData, postId, onSuccess }: PostFormPro
             <div className="flex">
               <div className="ml-3">
                 <p className="text-sm text-yellow-700">
-                  Note: All posts will be automatically deleted after 24 hours.
+                  Note: Posts are automatically deleted once they expire, unless set to never expire.
                 </p>
               </div>
             </div>
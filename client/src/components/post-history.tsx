@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { History, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { DiffLine, PostRevisionWithEditor, RevisionDiff } from "@shared/schema";
+
+interface PostHistoryProps {
+  postId: number;
+  canRestore: boolean;
+}
+
+function DiffView({ lines }: { lines: DiffLine[] }) {
+  return (
+    <pre className="text-sm font-mono whitespace-pre-wrap rounded-md border bg-gray-50 overflow-x-auto">
+      {lines.map((line, i) => (
+        <div
+          key={i}
+          className={cn(
+            "px-3",
+            line.type === "added" && "bg-green-100 text-green-900",
+            line.type === "removed" && "bg-red-100 text-red-900 line-through"
+          )}
+        >
+          {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+export default function PostHistory({ postId, canRestore }: PostHistoryProps) {
+  const { toast } = useToast();
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+
+  const { data, isLoading, error } = useQuery<{ status: string; data: { revisions: PostRevisionWithEditor[] } }>({
+    queryKey: ["/api/posts", postId.toString(), "revisions"],
+  });
+
+  const revisions = data?.data.revisions || [];
+  const latestRevision = revisions[0]?.revision;
+
+  // Each revision is compared with the one before it
+  const { data: diffData, isLoading: isDiffLoading } = useQuery<{ status: string; data: { diff: RevisionDiff } }>({
+    queryKey: ["/api/posts", postId.toString(), "revisions", "diff", { from: (selectedRevision ?? 0) - 1, to: selectedRevision }],
+    enabled: selectedRevision !== null && selectedRevision > 1,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: number) => {
+      const res = await apiRequest("POST", `/api/posts/${postId}/revisions/${revision}/restore`);
+      return res.json();
+    },
+    onSuccess: (data, revision) => {
+      if (data.status === "success") {
+        toast({
+          title: "Revision restored",
+          description: `The post has been rolled back to revision ${revision}.`
+        });
+        setSelectedRevision(null);
+        queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+      } else {
+        throw new Error(data.error?.message || "Failed to restore revision");
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to restore revision",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border-l-4 border-red-500 p-4 my-4">
+        <p className="text-sm text-red-700">Failed to load revision history: {error.message}</p>
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="bg-gray-50 rounded-lg p-6 text-center">
+        <p className="text-gray-600">This post hasn't been edited yet.</p>
+      </div>
+    );
+  }
+
+  const selected = revisions.find(rev => rev.revision === selectedRevision);
+  const diff = diffData?.data.diff;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          <h3 className="text-lg font-medium">Revision history</h3>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="divide-y">
+          {revisions.map(rev => (
+            <div key={rev.id} className="flex items-center justify-between py-2 gap-4">
+              <button
+                type="button"
+                className={cn(
+                  "text-left text-sm hover:text-primary-600 transition-colors",
+                  rev.revision === selectedRevision && "font-medium text-primary-600"
+                )}
+                onClick={() => setSelectedRevision(rev.revision === selectedRevision ? null : rev.revision)}
+              >
+                Revision {rev.revision}
+                <span className="text-muted-foreground">
+                  {" "}by {rev.editor.name}, {formatDistanceToNow(new Date(rev.createdAt), { addSuffix: true })}
+                </span>
+              </button>
+              <div className="flex items-center gap-2 shrink-0">
+                {rev.revision === latestRevision && (
+                  <Badge variant="secondary" className="text-xs">Current</Badge>
+                )}
+                {canRestore && rev.revision !== latestRevision && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex items-center gap-1"
+                    onClick={() => restoreMutation.mutate(rev.revision)}
+                    disabled={restoreMutation.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {selected && (
+          selected.revision === 1 ? (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Original version</p>
+              <h4 className="font-medium">{selected.title}</h4>
+              <p className="text-sm text-gray-700 whitespace-pre-wrap">{selected.body}</p>
+            </div>
+          ) : isDiffLoading || !diff ? (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Changes from revision {diff.from} to {diff.to}
+              </p>
+              <DiffView lines={diff.title} />
+              <DiffView lines={diff.body} />
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,13 +1,15 @@
-import { useQuery } from "@tanstack/react-query";
-import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
 import PostCard from "./post-card";
+import SearchResults from "./search-results";
+import { useRealtime } from "@/hooks/use-realtime";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Pagination, PaginationContent, PaginationEllipsis, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
 import { Badge } from "@/components/ui/badge";
 import { X, Search, Filter } from "lucide-react";
-import { PostWithDetails } from "@shared/schema";
+import { PostWithDetails, Tag } from "@shared/schema";
 
 interface PostListProps {
   authorId?: number;
@@ -17,14 +19,50 @@ interface PostListProps {
 export default function PostList({ authorId, limit }: PostListProps) {
   const [page, setPage] = useState(1);
   const [searchTerm, setSearchTerm] = useState("");
-  const [selectedTag, setSelectedTag] = useState<string | null>(null);
-  const [sortOrder, setSortOrder] = useState<"newest" | "oldest">("newest");
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagMode, setTagMode] = useState<"any" | "all">("any");
+  const [sortOrder, setSortOrder] = useState<"newest" | "oldest" | "most_commented">("newest");
+  const [searchQuery, setSearchQuery] = useState("");
   const perPage = limit || 10;
   
+  // Wait for typing to pause before hitting the search endpoint
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+  
+  // Refetch when posts are created, edited or deleted elsewhere
+  useRealtime("posts");
+  
+  // Filtering, sorting and pagination all happen on the server
   const { data, isLoading, error } = useQuery<{ status: string; data: { posts: PostWithDetails[]; meta: any } }>({
-    queryKey: ["/api/posts", authorId ? `?author_id=${authorId}` : ""],
+    queryKey: ["/api/posts", {
+      author_id: authorId,
+      tag: selectedTags.join(","),
+      tag_mode: selectedTags.length > 1 ? tagMode : undefined,
+      sort: sortOrder,
+      page,
+      per_page: perPage
+    }],
+    placeholderData: keepPreviousData,
+  });
+  
+  const { data: tagsData } = useQuery<{ status: string; data: { tags: Tag[] } }>({
+    queryKey: ["/api/tags"],
   });
   
+  const toggleTag = (tag: string) => {
+    setSelectedTags(selectedTags.includes(tag)
+      ? selectedTags.filter(t => t !== tag)
+      : [...selectedTags, tag]);
+    setPage(1);
+  };
+  
+  const clearTags = () => {
+    setSelectedTags([]);
+    setPage(1);
+  };
+  
   if (isLoading) {
     return (
       <div className="flex justify-center py-8">
@@ -50,7 +88,7 @@ export default function PostList({ authorId, limit }: PostListProps) {
     );
   }
   
-  if (!data || !data.data || !data.data.posts || data.data.posts.length === 0) {
+  if (selectedTags.length === 0 && (!data || !data.data || !data.data.posts || data.data.posts.length === 0)) {
     return (
       <div className="bg-white rounded-lg shadow p-6 text-center">
         <div className="mb-4">
@@ -66,39 +104,12 @@ export default function PostList({ authorId, limit }: PostListProps) {
     );
   }
   
-  // Extract all unique tags from posts
-  const allTags = Array.from(
-    new Set(
-      data.data.posts.flatMap(post => post.tags)
-    )
-  ).sort();
-  
-  // Filter posts by search term and selected tag
-  let filteredPosts = [...data.data.posts];
-  
-  if (searchTerm) {
-    filteredPosts = filteredPosts.filter(
-      post => post.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-             post.body.toLowerCase().includes(searchTerm.toLowerCase())
-    );
-  }
-  
-  if (selectedTag) {
-    filteredPosts = filteredPosts.filter(
-      post => post.tags.includes(selectedTag)
-    );
-  }
+  const allTags = (tagsData?.data?.tags || []).map(tag => tag.name).sort();
   
-  // Sort posts
-  filteredPosts.sort((a, b) => {
-    const dateA = new Date(a.createdAt).getTime();
-    const dateB = new Date(b.createdAt).getTime();
-    return sortOrder === "newest" ? dateB - dateA : dateA - dateB;
-  });
+  const filteredPosts = data?.data?.posts || [];
   
-  // Apply pagination
-  const totalPages = Math.ceil(filteredPosts.length / perPage);
-  const paginatedPosts = filteredPosts.slice((page - 1) * perPage, page * perPage);
+  const totalPages = data?.data?.meta?.total_pages || 0;
+  const totalCount = data?.data?.meta?.total_count || 0;
   
   const handlePageChange = (newPage: number) => {
     if (newPage > 0 && newPage <= totalPages) {
@@ -134,21 +145,25 @@ export default function PostList({ authorId, limit }: PostListProps) {
         <div className="flex gap-2">
           <Select
             value={sortOrder}
-            onValueChange={(value) => setSortOrder(value as "newest" | "oldest")}
+            onValueChange={(value) => {
+              setSortOrder(value as "newest" | "oldest" | "most_commented");
+              setPage(1);
+            }}
           >
-            <SelectTrigger className="w-36">
+            <SelectTrigger className="w-44">
               <SelectValue placeholder="Sort by" />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="newest">Newest first</SelectItem>
               <SelectItem value="oldest">Oldest first</SelectItem>
+              <SelectItem value="most_commented">Most commented</SelectItem>
             </SelectContent>
           </Select>
         </div>
       </div>
       
       {/* Tags filter */}
-      {allTags.length > 0 && (
+      {allTags.length > 0 && !searchQuery && (
         <div className="flex flex-wrap items-center gap-2">
           <Filter className="h-4 w-4 text-muted-foreground" />
           <span className="text-sm text-muted-foreground">Filter by tag:</span>
@@ -156,25 +171,39 @@ export default function PostList({ authorId, limit }: PostListProps) {
             {allTags.map(tag => (
               <Badge
                 key={tag}
-                variant={selectedTag === tag ? "default" : "outline"}
+                variant={selectedTags.includes(tag) ? "default" : "outline"}
                 className="cursor-pointer"
-                onClick={() => setSelectedTag(selectedTag === tag ? null : tag)}
+                onClick={() => toggleTag(tag)}
               >
                 {tag}
-                {selectedTag === tag && (
-                  <X className="ml-1 h-3 w-3" onClick={(e) => {
-                    e.stopPropagation();
-                    setSelectedTag(null);
-                  }} />
+                {selectedTags.includes(tag) && (
+                  <X className="ml-1 h-3 w-3" />
                 )}
               </Badge>
             ))}
           </div>
+          {selectedTags.length > 1 && (
+            <Select
+              value={tagMode}
+              onValueChange={(value) => {
+                setTagMode(value as "any" | "all");
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-40 h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Match any tag</SelectItem>
+                <SelectItem value="all">Match all tags</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
         </div>
       )}
       
       {/* Active filters display */}
-      {(searchTerm || selectedTag) && (
+      {(searchTerm || selectedTags.length > 0) && (
         <div className="flex items-center gap-2">
           <span className="text-sm text-muted-foreground">Active filters:</span>
           {searchTerm && (
@@ -183,19 +212,19 @@ export default function PostList({ authorId, limit }: PostListProps) {
               <X className="h-3 w-3 cursor-pointer" onClick={() => setSearchTerm("")} />
             </Badge>
           )}
-          {selectedTag && (
-            <Badge variant="secondary" className="flex items-center gap-1">
-              Tag: {selectedTag}
-              <X className="h-3 w-3 cursor-pointer" onClick={() => setSelectedTag(null)} />
+          {selectedTags.map(tag => (
+            <Badge key={tag} variant="secondary" className="flex items-center gap-1">
+              Tag: {tag}
+              <X className="h-3 w-3 cursor-pointer" onClick={() => toggleTag(tag)} />
             </Badge>
-          )}
+          ))}
           <Button
             variant="ghost"
             size="sm"
             className="text-xs h-7"
             onClick={() => {
               setSearchTerm("");
-              setSelectedTag(null);
+              clearTags();
             }}
           >
             Clear all
@@ -203,85 +232,92 @@ export default function PostList({ authorId, limit }: PostListProps) {
         </div>
       )}
       
-      {/* Results count */}
-      <div className="text-sm text-muted-foreground">
-        {filteredPosts.length === 0 
-          ? "No posts match your filters" 
-          : `Showing ${paginatedPosts.length} of ${filteredPosts.length} posts`
-        }
-      </div>
-      
-      {/* Post list */}
-      {filteredPosts.length > 0 ? (
-        <div className="space-y-6">
-          {paginatedPosts.map(post => (
-            <PostCard key={post.id} post={post} />
-          ))}
+      {/* Search results replace the post list while a query is active */}
+      {searchQuery ? (
+        <SearchResults query={searchQuery} authorId={authorId} />
+      ) : (
+        <>
+          {/* Results count */}
+          <div className="text-sm text-muted-foreground">
+            {filteredPosts.length === 0 
+              ? "No posts match your filters" 
+              : `Showing ${filteredPosts.length} of ${totalCount} posts`
+            }
+          </div>
           
-          {/* Pagination */}
-          {totalPages > 1 && (
-            <Pagination>
-              <PaginationContent>
-                <PaginationItem>
-                  <PaginationPrevious
-                    onClick={() => handlePageChange(page - 1)}
-                    className={page <= 1 ? "pointer-events-none opacity-50" : "cursor-pointer"}
-                  />
-                </PaginationItem>
-                
-                {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                  let pageNumber;
-                  
-                  // Logic to show pages around current page
-                  if (totalPages <= 5) {
-                    pageNumber = i + 1;
-                  } else if (page <= 3) {
-                    pageNumber = i + 1;
-                  } else if (page >= totalPages - 2) {
-                    pageNumber = totalPages - 4 + i;
-                  } else {
-                    pageNumber = page - 2 + i;
-                  }
-                  
-                  if (pageNumber === 1 || pageNumber === totalPages || 
-                      (pageNumber >= page - 1 && pageNumber <= page + 1)) {
-                    return (
-                      <PaginationItem key={pageNumber}>
-                        <PaginationLink
-                          isActive={page === pageNumber}
-                          onClick={() => handlePageChange(pageNumber)}
-                        >
-                          {pageNumber}
-                        </PaginationLink>
-                      </PaginationItem>
-                    );
-                  } else if (pageNumber === 2 || pageNumber === totalPages - 1) {
-                    return (
-                      <PaginationItem key={pageNumber}>
-                        <PaginationEllipsis />
-                      </PaginationItem>
-                    );
-                  }
-                  return null;
-                })}
-                
-                <PaginationItem>
-                  <PaginationNext
-                    onClick={() => handlePageChange(page + 1)}
-                    className={page >= totalPages ? "pointer-events-none opacity-50" : "cursor-pointer"}
-                  />
-                </PaginationItem>
-              </PaginationContent>
-            </Pagination>
+          {/* Post list */}
+          {filteredPosts.length > 0 ? (
+            <div className="space-y-6">
+              {filteredPosts.map(post => (
+                <PostCard key={post.id} post={post} />
+              ))}
+              
+              {/* Pagination */}
+              {totalPages > 1 && (
+                <Pagination>
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        onClick={() => handlePageChange(page - 1)}
+                        className={page <= 1 ? "pointer-events-none opacity-50" : "cursor-pointer"}
+                      />
+                    </PaginationItem>
+                    
+                    {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
+                      let pageNumber;
+                      
+                      // Logic to show pages around current page
+                      if (totalPages <= 5) {
+                        pageNumber = i + 1;
+                      } else if (page <= 3) {
+                        pageNumber = i + 1;
+                      } else if (page >= totalPages - 2) {
+                        pageNumber = totalPages - 4 + i;
+                      } else {
+                        pageNumber = page - 2 + i;
+                      }
+                      
+                      if (pageNumber === 1 || pageNumber === totalPages || 
+                          (pageNumber >= page - 1 && pageNumber <= page + 1)) {
+                        return (
+                          <PaginationItem key={pageNumber}>
+                            <PaginationLink
+                              isActive={page === pageNumber}
+                              onClick={() => handlePageChange(pageNumber)}
+                            >
+                              {pageNumber}
+                            </PaginationLink>
+                          </PaginationItem>
+                        );
+                      } else if (pageNumber === 2 || pageNumber === totalPages - 1) {
+                        return (
+                          <PaginationItem key={pageNumber}>
+                            <PaginationEllipsis />
+                          </PaginationItem>
+                        );
+                      }
+                      return null;
+                    })}
+                    
+                    <PaginationItem>
+                      <PaginationNext
+                        onClick={() => handlePageChange(page + 1)}
+                        className={page >= totalPages ? "pointer-events-none opacity-50" : "cursor-pointer"}
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              )}
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow p-6 text-center">
+              <h3 className="text-lg font-medium text-gray-900">No posts found</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Try adjusting your search or filter to find what you're looking for.
+              </p>
+            </div>
           )}
-        </div>
-      ) : (
-        <div className="bg-white rounded-lg shadow p-6 text-center">
-          <h3 className="text-lg font-medium text-gray-900">No posts found</h3>
-          <p className="mt-1 text-sm text-gray-500">
-            Try adjusting your search or filter to find what you're looking for.
-          </p>
-        </div>
+        </>
       )}
     </div>
   );
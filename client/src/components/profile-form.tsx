@@ -0,0 +1,194 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { UpdateProfile } from "@shared/schema";
+
+// Blank fields are left unchanged; the current password is only needed for email or password changes
+const profileSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  image: z.union([z.literal(""), z.string().url("Please enter a valid image URL")]),
+  email: z.string().email("Please enter a valid email address"),
+  password: z.union([z.literal(""), z.string().min(8, "Password must be at least 8 characters")]),
+  confirmPassword: z.string(),
+  currentPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type ProfileFormValues = z.infer<typeof profileSchema>;
+
+type ProfileFormProps = {
+  onSuccess?: () => void;
+};
+
+export default function ProfileForm({ onSuccess }: ProfileFormProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      name: user?.name ?? "",
+      image: user?.image ?? "",
+      email: user?.email ?? "",
+      password: "",
+      confirmPassword: "",
+      currentPassword: ""
+    }
+  });
+
+  const email = form.watch("email");
+  const password = form.watch("password");
+  const needsCurrentPassword = email !== user?.email || password !== "";
+
+  const updateProfileMutation = useMutation({
+    mutationFn: async (data: UpdateProfile) => {
+      const res = await apiRequest("PATCH", "/api/user", data);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      if (data.status === "success") {
+        queryClient.setQueryData(["/api/user"], data.data.user);
+        queryClient.invalidateQueries({ queryKey: ["/api/users", data.data.user.id.toString()] });
+        toast({
+          title: "Profile updated",
+          description: "Your changes have been saved."
+        });
+        if (onSuccess) onSuccess();
+      } else {
+        throw new Error(data.error?.message || "Failed to update profile");
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update profile",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const onSubmit = (data: ProfileFormValues) => {
+    // Only send what changed
+    const changes: UpdateProfile = {};
+    if (data.name !== user?.name) changes.name = data.name;
+    if (data.image !== (user?.image ?? "")) changes.image = data.image || null;
+    if (data.email !== user?.email) changes.email = data.email;
+    if (data.password) changes.password = data.password;
+    if (changes.email !== undefined || changes.password !== undefined) {
+      changes.currentPassword = data.currentPassword;
+    }
+
+    updateProfileMutation.mutate(changes);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="image"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Profile image URL</FormLabel>
+              <FormControl>
+                <Input placeholder="https://example.com/avatar.png" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New password</FormLabel>
+              <FormControl>
+                <Input type="password" placeholder="••••••••" {...field} />
+              </FormControl>
+              <FormDescription>Leave blank to keep your current password.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {password !== "" && (
+          <FormField
+            control={form.control}
+            name="confirmPassword"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Confirm new password</FormLabel>
+                <FormControl>
+                  <Input type="password" placeholder="••••••••" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {needsCurrentPassword && (
+          <FormField
+            control={form.control}
+            name="currentPassword"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Current password</FormLabel>
+                <FormControl>
+                  <Input type="password" placeholder="••••••••" {...field} />
+                </FormControl>
+                <FormDescription>Required to change your email or password.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={updateProfileMutation.isPending}>
+            {updateProfileMutation.isPending ? "Saving..." : "Save Changes"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
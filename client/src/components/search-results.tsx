@@ -0,0 +1,77 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { SearchResult } from "@shared/schema";
+
+interface SearchResultsProps {
+  query: string;
+  authorId?: number;
+}
+
+export default function SearchResults({ query, authorId }: SearchResultsProps) {
+  const { data, isLoading, error } = useQuery<{ status: string; data: { results: SearchResult[] } }>({
+    queryKey: ["/api/search", { q: query, author_id: authorId }],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border-l-4 border-red-500 p-4 my-4">
+        <p className="text-sm text-red-700">Search failed: {error.message}</p>
+      </div>
+    );
+  }
+
+  const results = data?.data.results || [];
+
+  if (results.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 text-center">
+        <h3 className="text-lg font-medium text-gray-900">No results found</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          No posts or comments match "{query}".
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-muted-foreground">
+        {results.length} {results.length === 1 ? "result" : "results"} for "{query}"
+      </div>
+
+      {results.map(result => (
+        <Card key={`${result.type}-${result.id}`}>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2 mb-1">
+              <Badge variant="outline" className="text-xs capitalize">{result.type}</Badge>
+              <span className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(result.createdAt), { addSuffix: true })}
+              </span>
+            </div>
+            <Link href={`/post/${result.postId}`}>
+              <a className="font-medium hover:text-primary-600 transition-colors">
+                {result.type === "comment" ? `Comment on "${result.title}"` : result.title}
+              </a>
+            </Link>
+            {/* Snippets are HTML-escaped on the server; only <mark> highlights are markup */}
+            <p
+              className="text-sm text-gray-700 mt-1 [&_mark]:bg-yellow-200 [&_mark]:rounded-sm"
+              dangerouslySetInnerHTML={{ __html: result.snippet }}
+            />
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
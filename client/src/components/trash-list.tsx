@@ -0,0 +1,120 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { Post, Comment } from "@shared/schema";
+
+type TrashItem =
+  | { type: "post"; item: Post }
+  | { type: "comment"; item: Comment };
+
+export default function TrashList() {
+  const { toast } = useToast();
+
+  const { data, isLoading, error } = useQuery<{ status: string; data: { posts: Post[]; comments: Comment[] } }>({
+    queryKey: ["/api/trash"],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ type, item }: TrashItem) => {
+      const res = await apiRequest("POST", `/api/${type}s/${item.id}/restore`);
+      return res.json();
+    },
+    onSuccess: (data, { type, item }) => {
+      if (data.status === "success") {
+        toast({
+          title: type === "post" ? "Post restored" : "Comment restored",
+          description: `Your ${type} has been restored from the trash.`
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+        if (type === "comment") {
+          queryClient.invalidateQueries({ queryKey: [`/api/posts/${(item as Comment).postId}/comments`] });
+        }
+      } else {
+        throw new Error(data.error?.message || "Failed to restore item");
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to restore item",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border-l-4 border-red-500 p-4 my-4">
+        <p className="text-sm text-red-700">Failed to load trash: {error.message}</p>
+      </div>
+    );
+  }
+
+  const items: TrashItem[] = [
+    ...(data?.data.posts || []).map(item => ({ type: "post" as const, item })),
+    ...(data?.data.comments || []).map(item => ({ type: "comment" as const, item })),
+  ].sort((a, b) =>
+    new Date(b.item.deletedAt!).getTime() - new Date(a.item.deletedAt!).getTime()
+  );
+
+  if (items.length === 0) {
+    return (
+      <div className="bg-white rounded-lg p-6 text-center">
+        <Trash2 className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900">Trash is empty</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Deleted posts and comments appear here until they are permanently removed.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {items.map(({ type, item }) => (
+        <Card key={`${type}-${item.id}`}>
+          <CardContent className="pt-6 flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 mb-1">
+                <Badge variant="outline" className="text-xs capitalize">{type}</Badge>
+                <span className="text-xs text-muted-foreground">
+                  Deleted {formatDistanceToNow(new Date(item.deletedAt!), { addSuffix: true })}
+                </span>
+              </div>
+              {type === "post" && (
+                <h3 className="font-medium truncate">{(item as Post).title}</h3>
+              )}
+              <p className="text-sm text-gray-700 line-clamp-2">
+                {type === "post" ? (item as Post).excerpt ?? item.body : item.body}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-1 shrink-0"
+              onClick={() => restoreMutation.mutate({ type, item } as TrashItem)}
+              disabled={restoreMutation.isPending}
+            >
+              <RotateCcw className="h-4 w-4" />
+              Restore
+            </Button>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
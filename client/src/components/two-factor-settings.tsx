@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { TwoFactorStatus } from "@shared/schema";
+import { ShieldCheck, ShieldOff } from "lucide-react";
+
+type SetupData = {
+  secret: string;
+  otpauthUri: string;
+};
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Recovery codes are only ever shown once, right after they are generated
+function RecoveryCodeList({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose access to your
+        authenticator app. They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md bg-gray-50 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => navigator.clipboard.writeText(codes.join("\n"))}>
+          Copy
+        </Button>
+        <Button onClick={onDone}>Done</Button>
+      </div>
+    </div>
+  );
+}
+
+// Turns TOTP two-factor authentication on or off and manages recovery codes
+export default function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<SetupData | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+
+  const { data: statusData, isLoading } = useQuery<{ status: string; data: TwoFactorStatus }>({
+    queryKey: ["/api/2fa"],
+  });
+  const status = statusData?.data;
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive"
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/setup");
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setSetup(data.data);
+      setCode("");
+    },
+    onError: onError("Failed to start setup")
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/2fa/enable", { code });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "You'll be asked for a code from your authenticator app when you log in."
+      });
+    },
+    onError: onError("Failed to enable two-factor authentication")
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (data: { password: string; code: string }) => {
+      const res = await apiRequest("POST", "/api/2fa/disable", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      setCode("");
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+      toast({
+        title: "Two-factor authentication disabled"
+      });
+    },
+    onError: onError("Failed to disable two-factor authentication")
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/2fa/recovery-codes", { code });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(data.data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+    },
+    onError: onError("Failed to generate recovery codes")
+  });
+
+  if (recoveryCodes) {
+    return <RecoveryCodeList codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />;
+  }
+
+  if (isLoading || !status) {
+    return <p className="text-sm text-gray-500">Loading...</p>;
+  }
+
+  if (setup) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Add this key to your authenticator app, or open the setup link on a device that has one, then enter the
+          6-digit code it shows.
+        </p>
+        <div className="rounded-md bg-gray-50 p-4">
+          <p className="font-mono text-sm break-all">{setup.secret}</p>
+          <a href={setup.otpauthUri} className="text-sm text-primary-600 hover:underline">
+            Open in authenticator app
+          </a>
+        </div>
+        <div className="flex justify-center">
+          <CodeInput value={code} onChange={setCode} />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => setSetup(null)}>
+            Cancel
+          </Button>
+          <Button onClick={() => enableMutation.mutate(code)} disabled={code.length !== 6 || enableMutation.isPending}>
+            {enableMutation.isPending ? "Verifying..." : "Enable"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!status.enabled) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center text-sm text-gray-600">
+          <ShieldOff className="h-5 w-5 mr-2 text-gray-400" />
+          Two-factor authentication is off.
+        </div>
+        <p className="text-sm text-gray-600">
+          Protect your account with a code from an authenticator app in addition to your password.
+        </p>
+        <div className="flex justify-end">
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            {setupMutation.isPending ? "Starting..." : "Set Up"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center text-sm text-green-700">
+        <ShieldCheck className="h-5 w-5 mr-2" />
+        Two-factor authentication is on. {status.recoveryCodesRemaining} recovery codes remaining.
+      </div>
+      <div className="space-y-2">
+        <Label>Authentication code</Label>
+        <CodeInput value={code} onChange={setCode} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="two-factor-password">Password (to disable)</Label>
+        <Input
+          id="two-factor-password"
+          type="password"
+          placeholder="••••••••"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          onClick={() => regenerateMutation.mutate(code)}
+          disabled={code.length !== 6 || regenerateMutation.isPending}
+        >
+          New Recovery Codes
+        </Button>
+        <Button
+          variant="destructive"
+          onClick={() => disableMutation.mutate({ password, code })}
+          disabled={code.length !== 6 || !password || disableMutation.isPending}
+        >
+          {disableMutation.isPending ? "Disabling..." : "Disable"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { createContext, ReactNode, useContext } from "react";
+import { createContext, ReactNode, useContext, useState } from "react";
 import {
   useQuery,
   useMutation,
@@ -13,6 +13,10 @@ type AuthContextType = {
   isLoading: boolean;
   error: Error | null;
   loginMutation: UseMutationResult<any, Error, LoginData>;
+  // Set after a correct password when the account needs a second factor to finish signing in
+  twoFactorChallenge: string | null;
+  cancelTwoFactor: () => void;
+  verifyTwoFactorMutation: UseMutationResult<any, Error, TwoFactorData>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<any, Error, InsertUser>;
 };
@@ -22,9 +26,15 @@ type LoginData = {
   password: string;
 };
 
+type TwoFactorData = {
+  code?: string;
+  recoveryCode?: string;
+};
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(null);
   const {
     data: user,
     error,
@@ -40,7 +50,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       return await res.json();
     },
     onSuccess: (data: any) => {
-      if (data.status === "success") {
+      if (data.status === "success" && data.data.twoFactorRequired) {
+        setTwoFactorChallenge(data.data.challengeToken);
+      } else if (data.status === "success") {
         queryClient.setQueryData(["/api/user"], data.data.user);
         toast({
           title: "Login successful",
@@ -59,6 +71,35 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (factor: TwoFactorData) => {
+      const res = await apiRequest("POST", "/api/login/2fa", {
+        challengeToken: twoFactorChallenge,
+        ...factor,
+      });
+      return await res.json();
+    },
+    onSuccess: (data: any) => {
+      setTwoFactorChallenge(null);
+      queryClient.setQueryData(["/api/user"], data.data.user);
+      toast({
+        title: "Login successful",
+        description: `Welcome back, ${data.data.user.name}!`,
+      });
+    },
+    onError: (error: Error) => {
+      // An expired challenge can't be retried, so send the user back to the password step
+      if (error.message.startsWith("401") && error.message.includes("log in again")) {
+        setTwoFactorChallenge(null);
+      }
+      toast({
+        title: "Verification failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const registerMutation = useMutation({
     mutationFn: async (userData: InsertUser) => {
       const res = await apiRequest("POST", "/api/register", userData);
@@ -111,6 +152,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorChallenge,
+        cancelTwoFactor: () => setTwoFactorChallenge(null),
+        verifyTwoFactorMutation,
         logoutMutation,
         registerMutation,
       }}
@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+
+// Authors are warned this many hours before a post is deleted; the server's EXPIRY_WARNING_HOURS
+export function useExpiryWarningHours(): number | undefined {
+  const { data } = useQuery<{ status: string; data: { expiryWarningHours: number } }>({
+    queryKey: ["/api/config"],
+  });
+  return data?.data?.expiryWarningHours;
+}
+
+// Whether a post's stored expiry falls within the warning window, including posts past their
+// expiry that the scheduler hasn't deleted yet
+export function isExpiringSoon(expiresAt: string | Date | null, warningHours: number | undefined): boolean {
+  if (!expiresAt || warningHours === undefined) return false;
+  const hoursUntilExpiry = (new Date(expiresAt).getTime() - Date.now()) / (1000 * 60 * 60);
+  return hoursUntilExpiry < warningHours;
+}
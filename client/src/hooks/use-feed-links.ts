@@ -0,0 +1,26 @@
+import { useEffect } from "react";
+
+const FEED_FORMATS = [
+  { file: "feed.xml", type: "application/rss+xml", label: "RSS" },
+  { file: "atom.xml", type: "application/atom+xml", label: "Atom" },
+];
+
+// Advertise the RSS and Atom feeds under basePath to feed readers while the component is
+// mounted, e.g. useFeedLinks(`/users/${id}`, "Posts by Jane") for /users/:id/feed.xml
+export function useFeedLinks(basePath: string | undefined, title: string) {
+  useEffect(() => {
+    if (!basePath) return;
+
+    const links = FEED_FORMATS.map(({ file, type, label }) => {
+      const link = document.createElement("link");
+      link.rel = "alternate";
+      link.type = type;
+      link.title = `${title} (${label})`;
+      link.href = `${basePath}/${file}`;
+      document.head.appendChild(link);
+      return link;
+    });
+
+    return () => links.forEach(link => link.remove());
+  }, [basePath, title]);
+}
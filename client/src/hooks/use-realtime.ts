@@ -0,0 +1,11 @@
+import { useEffect } from "react";
+import { subscribeToChannel } from "@/lib/realtime";
+
+// Keep the queries for a channel fresh while the component is mounted, e.g. useRealtime("posts")
+// for post lists or useRealtime(`post:${id}`) for a post and its comments
+export function useRealtime(channel: string | undefined) {
+  useEffect(() => {
+    if (!channel) return;
+    return subscribeToChannel(channel);
+  }, [channel]);
+}
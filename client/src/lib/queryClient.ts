@@ -23,13 +23,38 @@ export async function apiRequest(
   return res;
 }
 
+// Build a request URL from a query key: scalar parts are appended as path
+// segments and object parts become the query string (empty values are skipped)
+export function getQueryUrl(queryKey: readonly unknown[]): string {
+  const [path, ...parts] = queryKey;
+  let url = String(path);
+  const params = new URLSearchParams();
+
+  for (const part of parts) {
+    if (part === undefined || part === null || part === "") continue;
+
+    if (typeof part === "object") {
+      for (const [key, value] of Object.entries(part)) {
+        if (value !== undefined && value !== null && value !== "") {
+          params.set(key, String(value));
+        }
+      }
+    } else {
+      url += `/${part}`;
+    }
+  }
+
+  const query = params.toString();
+  return query ? `${url}?${query}` : url;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    const res = await fetch(getQueryUrl(queryKey), {
       credentials: "include",
     });
 
@@ -0,0 +1,90 @@
+import { queryClient } from "./queryClient";
+import type { RealtimeClientMessage, RealtimeServerMessage } from "@shared/schema";
+
+const RECONNECT_MIN_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+
+// One socket is shared by the whole tab; each channel is reference counted across the
+// components that subscribe to it
+const subscriptions = new Map<string, number>();
+let socket: WebSocket | null = null;
+let hasConnected = false;
+let reconnectDelay = RECONNECT_MIN_DELAY_MS;
+let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+function send(message: RealtimeClientMessage) {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+// Events only say what changed, so refetch the queries that show it
+function invalidateChannel(channel: string) {
+  if (channel === "posts") {
+    queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+    return;
+  }
+
+  const postId = channel.slice("post:".length);
+  queryClient.invalidateQueries({ queryKey: ["/api/posts", postId] });
+  queryClient.invalidateQueries({ queryKey: [`/api/posts/${postId}/comments`] });
+}
+
+function connect() {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+  socket.onopen = () => {
+    const isReconnect = hasConnected;
+    hasConnected = true;
+    reconnectDelay = RECONNECT_MIN_DELAY_MS;
+
+    for (const channel of Array.from(subscriptions.keys())) {
+      send({ type: "subscribe", channel });
+      // Anything could have changed while we were disconnected
+      if (isReconnect) invalidateChannel(channel);
+    }
+  };
+
+  socket.onmessage = (event) => {
+    const message = JSON.parse(event.data) as RealtimeServerMessage;
+    if (message.type === "event") {
+      invalidateChannel(message.channel);
+    }
+  };
+
+  socket.onclose = () => {
+    socket = null;
+    if (subscriptions.size === 0) return;
+
+    // Back off exponentially so a server restart isn't met with a reconnect storm
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = undefined;
+      connect();
+    }, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_DELAY_MS);
+  };
+}
+
+// Subscribe to a channel such as "posts" or "post:42"; returns the unsubscribe function
+export function subscribeToChannel(channel: string): () => void {
+  const count = subscriptions.get(channel) ?? 0;
+  subscriptions.set(channel, count + 1);
+
+  if (count === 0) {
+    // A socket that is still connecting subscribes to every channel once it opens
+    if (!socket && !reconnectTimer) connect();
+    else send({ type: "subscribe", channel });
+  }
+
+  return () => {
+    const remaining = (subscriptions.get(channel) ?? 1) - 1;
+    if (remaining > 0) {
+      subscriptions.set(channel, remaining);
+      return;
+    }
+
+    subscriptions.delete(channel);
+    send({ type: "unsubscribe", channel });
+  };
+}
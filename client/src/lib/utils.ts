@@ -1,6 +1,12 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { User } from "@shared/schema"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Authors can manage their own content; moderators and admins can manage anyone's
+export function canModify(user: Pick<User, "id" | "role"> | null | undefined, authorId: number) {
+  return !!user && (user.id === authorId || user.role === "moderator" || user.role === "admin")
+}
@@ -1,5 +1,6 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
 import "./index.css";
+import "highlight.js/styles/github.css";
 
 createRoot(document.getElementById("root")!).render(<App />);
@@ -1,16 +1,20 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
 import { Redirect } from "wouter";
 import { z } from "zod";
-import { useState } from "react";
+import { FormEvent, useState } from "react";
 import { insertUserSchema } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { BookOpen, UserCircle, Lock } from "lucide-react";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { BookOpen, UserCircle, Lock, ShieldCheck } from "lucide-react";
 
 // Extended schema for login
 const loginSchema = z.object({
@@ -27,12 +31,42 @@ const registerSchema = insertUserSchema.extend({
   path: ["confirmPassword"],
 });
 
+// Schema for requesting a password reset link
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+});
+
+// Schema for choosing a new password with a reset link
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string().min(8, "Password must be at least 8 characters"),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
 type LoginFormValues = z.infer<typeof loginSchema>;
 type RegisterFormValues = z.infer<typeof registerSchema>;
+type ForgotPasswordFormValues = z.infer<typeof forgotPasswordSchema>;
+type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>;
 
 export default function AuthPage() {
-  const [activeTab, setActiveTab] = useState<string>("login");
-  const { user, loginMutation, registerMutation } = useAuth();
+  // Password reset emails link back here with ?reset=<token>
+  const [resetToken] = useState(() => new URLSearchParams(window.location.search).get("reset"));
+  const [activeTab, setActiveTab] = useState<string>(resetToken ? "reset" : "login");
+  const [resetLinkSent, setResetLinkSent] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const {
+    user,
+    loginMutation,
+    registerMutation,
+    twoFactorChallenge,
+    cancelTwoFactor,
+    verifyTwoFactorMutation
+  } = useAuth();
+  const { toast } = useToast();
   
   const loginForm = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -53,6 +87,58 @@ export default function AuthPage() {
     }
   });
   
+  const forgotPasswordForm = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: ""
+    }
+  });
+  
+  const resetPasswordForm = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: ""
+    }
+  });
+  
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordFormValues) => {
+      const res = await apiRequest("POST", "/api/password/forgot", data);
+      return res.json();
+    },
+    onSuccess: () => setResetLinkSent(true),
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send reset link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (data: ResetPasswordFormValues) => {
+      const res = await apiRequest("POST", "/api/password/reset", { token: resetToken, password: data.password });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password reset",
+        description: "You can now log in with your new password.",
+      });
+      window.history.replaceState(null, "", "/auth");
+      setActiveTab("login");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reset password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
   function onLoginSubmit(data: LoginFormValues) {
     loginMutation.mutate(data);
   }
@@ -63,6 +149,11 @@ export default function AuthPage() {
     registerMutation.mutate(userData);
   }
   
+  function onTwoFactorSubmit(event: FormEvent) {
+    event.preventDefault();
+    verifyTwoFactorMutation.mutate(useRecoveryCode ? { recoveryCode } : { code: twoFactorCode });
+  }
+  
   // If user is already logged in, redirect to home
   if (user) {
     return <Redirect to="/" />;
@@ -118,7 +209,8 @@ export default function AuthPage() {
       {/* Auth Forms - Left side on desktop, bottom on mobile */}
       <div className="w-full md:w-1/2 p-4 md:p-16 flex flex-col justify-center order-2 md:order-1">
         <div className="max-w-md mx-auto w-full">
-          <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          {/* The second-factor step takes over until the login is completed or cancelled */}
+          <Tabs value={twoFactorChallenge ? "two-factor" : activeTab} onValueChange={setActiveTab} className="w-full">
             <TabsList className="grid w-full grid-cols-2 mb-8">
               <TabsTrigger value="login">Login</TabsTrigger>
               <TabsTrigger value="register">Sign Up</TabsTrigger>
@@ -177,6 +269,16 @@ export default function AuthPage() {
                           </FormItem>
                         )}
                       />
+                      <div className="flex justify-end">
+                        <Button 
+                          type="button" 
+                          variant="link" 
+                          className="p-0 h-auto text-sm" 
+                          onClick={() => setActiveTab("forgot")}
+                        >
+                          Forgot password?
+                        </Button>
+                      </div>
                       <Button 
                         type="submit" 
                         className="w-full" 
@@ -202,6 +304,68 @@ export default function AuthPage() {
               </Card>
             </TabsContent>
             
+            {/* Two-Factor Step */}
+            <TabsContent value="two-factor">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-2xl flex items-center">
+                    <ShieldCheck className="h-6 w-6 mr-2" />
+                    Two-factor authentication
+                  </CardTitle>
+                  <CardDescription>
+                    {useRecoveryCode
+                      ? "Enter one of the recovery codes you saved when you turned on two-factor authentication"
+                      : "Enter the 6-digit code from your authenticator app"}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={onTwoFactorSubmit} className="space-y-4">
+                    {useRecoveryCode ? (
+                      <Input 
+                        placeholder="xxxxx-xxxxx" 
+                        autoComplete="off" 
+                        value={recoveryCode} 
+                        onChange={(e) => setRecoveryCode(e.target.value)} 
+                      />
+                    ) : (
+                      <div className="flex justify-center">
+                        <InputOTP maxLength={6} value={twoFactorCode} onChange={setTwoFactorCode} autoFocus>
+                          <InputOTPGroup>
+                            {[0, 1, 2, 3, 4, 5].map((index) => (
+                              <InputOTPSlot key={index} index={index} />
+                            ))}
+                          </InputOTPGroup>
+                        </InputOTP>
+                      </div>
+                    )}
+                    <Button 
+                      type="submit" 
+                      className="w-full" 
+                      disabled={verifyTwoFactorMutation.isPending || (useRecoveryCode ? !recoveryCode.trim() : twoFactorCode.length !== 6)}
+                    >
+                      {verifyTwoFactorMutation.isPending ? "Verifying..." : "Verify"}
+                    </Button>
+                  </form>
+                </CardContent>
+                <CardFooter className="flex justify-between">
+                  <Button 
+                    variant="link" 
+                    className="p-0" 
+                    onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                  >
+                    {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                  </Button>
+                  <Button 
+                    variant="link" 
+                    className="p-0" 
+                    onClick={cancelTwoFactor}
+                  >
+                    Back to login
+                  </Button>
+                </CardFooter>
+              </Card>
+            </TabsContent>
+            
             {/* Register Tab */}
             <TabsContent value="register">
               <Card>
@@ -290,6 +454,132 @@ export default function AuthPage() {
                 </CardFooter>
               </Card>
             </TabsContent>
+            
+            {/* Forgot Password */}
+            <TabsContent value="forgot">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-2xl">Forgot your password?</CardTitle>
+                  <CardDescription>
+                    Enter your email and we'll send you a link to reset it
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {resetLinkSent ? (
+                    <p className="text-sm text-muted-foreground">
+                      If an account exists for that email, a reset link is on its way. The link expires in one hour.
+                    </p>
+                  ) : (
+                    <Form {...forgotPasswordForm}>
+                      <form onSubmit={forgotPasswordForm.handleSubmit((data) => forgotPasswordMutation.mutate(data))} className="space-y-4">
+                        <FormField
+                          control={forgotPasswordForm.control}
+                          name="email"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Email</FormLabel>
+                              <FormControl>
+                                <div className="relative">
+                                  <UserCircle className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                                  <Input 
+                                    placeholder="name@example.com" 
+                                    className="pl-10" 
+                                    {...field} 
+                                  />
+                                </div>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <Button 
+                          type="submit" 
+                          className="w-full" 
+                          disabled={forgotPasswordMutation.isPending}
+                        >
+                          {forgotPasswordMutation.isPending ? "Sending..." : "Send Reset Link"}
+                        </Button>
+                      </form>
+                    </Form>
+                  )}
+                </CardContent>
+                <CardFooter className="flex justify-center">
+                  <p className="text-sm text-muted-foreground">
+                    Remembered it?{" "}
+                    <Button 
+                      variant="link" 
+                      className="p-0" 
+                      onClick={() => setActiveTab("login")}
+                    >
+                      Back to login
+                    </Button>
+                  </p>
+                </CardFooter>
+              </Card>
+            </TabsContent>
+            
+            {/* Reset Password */}
+            <TabsContent value="reset">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-2xl">Choose a new password</CardTitle>
+                  <CardDescription>
+                    Reset links can only be used once
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Form {...resetPasswordForm}>
+                    <form onSubmit={resetPasswordForm.handleSubmit((data) => resetPasswordMutation.mutate(data))} className="space-y-4">
+                      <FormField
+                        control={resetPasswordForm.control}
+                        name="password"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>New Password</FormLabel>
+                            <FormControl>
+                              <Input type="password" placeholder="••••••••" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={resetPasswordForm.control}
+                        name="confirmPassword"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Confirm Password</FormLabel>
+                            <FormControl>
+                              <Input type="password" placeholder="••••••••" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button 
+                        type="submit" 
+                        className="w-full" 
+                        disabled={resetPasswordMutation.isPending}
+                      >
+                        {resetPasswordMutation.isPending ? "Resetting..." : "Reset Password"}
+                      </Button>
+                    </form>
+                  </Form>
+                </CardContent>
+                <CardFooter className="flex justify-center">
+                  <p className="text-sm text-muted-foreground">
+                    Link expired?{" "}
+                    <Button 
+                      variant="link" 
+                      className="p-0" 
+                      onClick={() => setActiveTab("forgot")}
+                    >
+                      Request a new one
+                    </Button>
+                  </p>
+                </CardFooter>
+              </Card>
+            </TabsContent>
           </Tabs>
         </div>
       </div>
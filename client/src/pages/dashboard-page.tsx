@@ -1,21 +1,40 @@
 import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
+import { useExpiryWarningHours, isExpiringSoon } from "@/hooks/use-expiry-warning";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { Clock, FileText, MessageSquare, Tag, Edit3, PlusCircle } from "lucide-react";
+import { Clock, FileText, FilePen, MessageSquare, Tag, Edit3, PlusCircle, Trash2 } from "lucide-react";
 import PostList from "@/components/post-list";
+import PostCard from "@/components/post-card";
+import TrashList from "@/components/trash-list";
 import PostForm from "@/components/post-form";
+import ProfileForm from "@/components/profile-form";
+import EmailVerificationBanner from "@/components/email-verification-banner";
+import TwoFactorSettings from "@/components/two-factor-settings";
+import ApiKeySettings from "@/components/api-key-settings";
+import { PostWithDetails } from "@shared/schema";
 
 export default function DashboardPage() {
   const { user } = useAuth();
   const [isCreatingPost, setIsCreatingPost] = useState(false);
+  const [isEditingProfile, setIsEditingProfile] = useState(false);
+  const [isManagingTwoFactor, setIsManagingTwoFactor] = useState(false);
+  const [isManagingApiKeys, setIsManagingApiKeys] = useState(false);
   
-  const { data: postsData } = useQuery<{ status: string; data: { posts: any[] } }>({
-    queryKey: ["/api/posts", `?author_id=${user?.id}`],
+  // Load up to 100 of the user's posts for the expiring-soon summary
+  const { data: postsData } = useQuery<{ status: string; data: { posts: PostWithDetails[]; meta: { total_count: number } } }>({
+    queryKey: ["/api/posts", { author_id: user?.id, per_page: 100 }],
+  });
+  
+  // Drafts and scheduled posts are not part of the public post listing
+  const { data: draftsData } = useQuery<{ status: string; data: { posts: PostWithDetails[] } }>({
+    queryKey: ["/api/drafts"],
   });
   
   const { data: commentsData } = useQuery<{ status: string; data: { comments: any[] } }>({
@@ -27,17 +46,17 @@ export default function DashboardPage() {
   });
   
   // Calculate stats
-  const postCount = postsData?.data?.posts?.length || 0;
+  const postCount = postsData?.data?.meta?.total_count || 0;
   const commentCount = commentsData?.data?.comments?.length || 0;
   const tagCount = tagsData?.data?.tags?.length || 0;
+  const drafts = draftsData?.data?.posts || [];
   
-  // Find expiring posts (posts created more than 22 hours ago)
-  const expiringPosts = postsData?.data?.posts?.filter(post => {
-    const createdAt = new Date(post.createdAt);
-    const now = new Date();
-    const hoursSinceCreation = (now.getTime() - createdAt.getTime()) / (1000 * 60 * 60);
-    return hoursSinceCreation > 22 && hoursSinceCreation < 24;
-  }) || [];
+  // Find expiring posts (posts whose stored expiry falls within the server's warning window)
+  const expiryWarningHours = useExpiryWarningHours();
+  const warningWindow = expiryWarningHours === undefined ? "few hours" : expiryWarningHours === 1 ? "hour" : `${expiryWarningHours} hours`;
+  const expiringPosts = postsData?.data?.posts?.filter(post =>
+    isExpiringSoon(post.expiresAt, expiryWarningHours) && new Date(post.expiresAt!) > new Date()
+  ) || [];
 
   return (
     <div className="container max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
@@ -48,6 +67,8 @@ export default function DashboardPage() {
         </p>
       </div>
       
+      <EmailVerificationBanner />
+      
       {/* User Profile & Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
         {/* User Profile Card */}
@@ -55,15 +76,62 @@ export default function DashboardPage() {
           <CardContent className="pt-6">
             <div className="flex flex-col items-center text-center">
               <Avatar className="h-20 w-20 mb-4">
+                {user?.image && <AvatarImage src={user.image} alt={user.name} />}
                 <AvatarFallback className="text-2xl">
                   {user?.name.split(" ").map(n => n[0]).join("").toUpperCase()}
                 </AvatarFallback>
               </Avatar>
               <h2 className="text-xl font-bold">{user?.name}</h2>
               <p className="text-sm text-gray-500 mb-4">{user?.email}</p>
-              <Button variant="outline" size="sm" className="mb-4 w-full">
-                Edit Profile
-              </Button>
+              <Dialog open={isEditingProfile} onOpenChange={setIsEditingProfile}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" size="sm" className="mb-2 w-full">
+                    Edit Profile
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Edit Profile</DialogTitle>
+                    <DialogDescription>Update your name, avatar, email or password.</DialogDescription>
+                  </DialogHeader>
+                  <ProfileForm onSuccess={() => setIsEditingProfile(false)} />
+                </DialogContent>
+              </Dialog>
+              <Dialog open={isManagingTwoFactor} onOpenChange={setIsManagingTwoFactor}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" size="sm" className="mb-2 w-full">
+                    Two-Factor Authentication
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Two-Factor Authentication</DialogTitle>
+                    <DialogDescription>Require a code from an authenticator app when you log in.</DialogDescription>
+                  </DialogHeader>
+                  <TwoFactorSettings />
+                </DialogContent>
+              </Dialog>
+              <Dialog open={isManagingApiKeys} onOpenChange={setIsManagingApiKeys}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" size="sm" className="mb-2 w-full">
+                    API Keys
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>API Keys</DialogTitle>
+                    <DialogDescription>
+                      Send a key as <code>Authorization: ApiKey &lt;key&gt;</code> to use the API from scripts.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <ApiKeySettings />
+                </DialogContent>
+              </Dialog>
+              <Link href={`/users/${user?.id}`}>
+                <Button variant="ghost" size="sm" className="mb-4 w-full">
+                  View Public Profile
+                </Button>
+              </Link>
             </div>
           </CardContent>
         </Card>
@@ -103,7 +171,7 @@ export default function DashboardPage() {
             </div>
             <h3 className="text-lg font-medium text-yellow-900">Posts Expiring Soon</h3>
             <p className="text-sm text-yellow-700 mt-1">
-              Will be deleted in the next 2 hours
+              Will be deleted in the next {warningWindow}
             </p>
           </CardContent>
         </Card>
@@ -152,10 +220,18 @@ export default function DashboardPage() {
                       <FileText className="h-4 w-4" /> 
                       Posts
                     </TabsTrigger>
+                    <TabsTrigger value="drafts" className="flex items-center gap-1">
+                      <FilePen className="h-4 w-4" /> 
+                      Drafts
+                    </TabsTrigger>
                     <TabsTrigger value="expiring" className="flex items-center gap-1">
                       <Clock className="h-4 w-4" /> 
                       Expiring Soon
                     </TabsTrigger>
+                    <TabsTrigger value="trash" className="flex items-center gap-1">
+                      <Trash2 className="h-4 w-4" /> 
+                      Trash
+                    </TabsTrigger>
                   </TabsList>
                   
                   <TabsContent value="posts" className="mt-0">
@@ -164,6 +240,24 @@ export default function DashboardPage() {
                     />
                   </TabsContent>
                   
+                  <TabsContent value="drafts" className="mt-0">
+                    {drafts.length > 0 ? (
+                      <div className="space-y-6">
+                        {drafts.map(post => (
+                          <PostCard key={post.id} post={post} />
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="bg-white rounded-lg p-6 text-center">
+                        <FilePen className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                        <h3 className="text-lg font-medium text-gray-900">No drafts</h3>
+                        <p className="mt-1 text-sm text-gray-500">
+                          Drafts and scheduled posts are only visible to you until they are published.
+                        </p>
+                      </div>
+                    )}
+                  </TabsContent>
+                  
                   <TabsContent value="expiring" className="mt-0">
                     {expiringPosts.length > 0 ? (
                       <div className="space-y-6">
@@ -176,7 +270,7 @@ export default function DashboardPage() {
                             </div>
                             <div className="ml-3">
                               <p className="text-sm text-yellow-700">
-                                These posts will be automatically deleted within the next 2 hours.
+                                These posts will be automatically deleted within the next {warningWindow} unless you extend them.
                               </p>
                             </div>
                           </div>
@@ -191,11 +285,15 @@ export default function DashboardPage() {
                         <Clock className="mx-auto h-12 w-12 text-gray-400 mb-4" />
                         <h3 className="text-lg font-medium text-gray-900">No posts expiring soon</h3>
                         <p className="mt-1 text-sm text-gray-500">
-                          None of your posts are scheduled for deletion in the next 2 hours.
+                          None of your posts are scheduled for deletion in the next {warningWindow}.
                         </p>
                       </div>
                     )}
                   </TabsContent>
+                  
+                  <TabsContent value="trash" className="mt-0">
+                    <TrashList />
+                  </TabsContent>
                 </Tabs>
               )}
             </CardContent>
@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+
+// Expiry warning emails link here with /post/:id/extend?token=<token>
+export default function ExtendPostPage() {
+  const { id } = useParams();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token"));
+  const requested = useRef(false);
+
+  // Each link extends the post once, so the request is a mutation fired once rather than a query
+  const extendMutation = useMutation({
+    mutationFn: async (token: string) => {
+      const res = await apiRequest("POST", `/api/posts/${id}/extend`, { token });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+    }
+  });
+
+  useEffect(() => {
+    if (token && !requested.current) {
+      requested.current = true;
+      extendMutation.mutate(token);
+    }
+  }, [token]);
+
+  return (
+    <div className="container max-w-md mx-auto py-12 px-4">
+      <Card>
+        <CardContent className="pt-6 text-center">
+          {extendMutation.isSuccess ? (
+            <>
+              <CheckCircle2 className="mx-auto h-12 w-12 text-green-500 mb-4" />
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">Post extended</h1>
+              <p className="text-gray-600 mb-6">Your post will stay online for longer.</p>
+              <Link href={`/post/${id}`}>
+                <Button>View Post</Button>
+              </Link>
+            </>
+          ) : !token || extendMutation.isError ? (
+            <>
+              <XCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">Could not extend post</h1>
+              <p className="text-gray-600 mb-6">
+                This link is invalid or has already been used. You can still extend the post from its page while signed in.
+              </p>
+              <Link href={`/post/${id}`}>
+                <Button>View Post</Button>
+              </Link>
+            </>
+          ) : (
+            <>
+              <Loader2 className="mx-auto h-12 w-12 animate-spin text-primary-600 mb-4" />
+              <p className="text-lg text-gray-600">Extending your post...</p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
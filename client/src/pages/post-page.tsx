@@ -1,24 +1,31 @@
 import { useQuery } from "@tanstack/react-query";
 import { Redirect, useParams, Link } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { useRealtime } from "@/hooks/use-realtime";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { ArrowLeft, Calendar, Clock, Loader2, Pencil } from "lucide-react";
+import { ArrowLeft, Calendar, Clock, History, Loader2, Pencil } from "lucide-react";
 import PostCard from "@/components/post-card";
 import CommentList from "@/components/comment-list";
 import PostForm from "@/components/post-form";
+import PostHistory from "@/components/post-history";
+import { canModify } from "@/lib/utils";
 import { PostWithDetails } from "@shared/schema";
 
 export default function PostPage() {
   const { id } = useParams();
   const { user } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   
   const { data, isLoading, error } = useQuery<{ status: string; data: { post: PostWithDetails } }>({
     queryKey: ["/api/posts", id],
   });
+  
+  // Pick up edits and new comments from other users without a reload
+  useRealtime(id ? `post:${id}` : undefined);
 
   if (isLoading) {
     return (
@@ -60,17 +67,28 @@ export default function PostPage() {
   }
 
   const post = data.data.post;
-  const isAuthor = user && user.id === post.author.id;
+  const isAuthor = canModify(user, post.author.id);
 
   return (
     <div className="container max-w-4xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
-      <div className="mb-4">
+      <div className="mb-4 flex items-center justify-between">
         <Link href="/">
           <Button variant="outline" size="sm" className="flex items-center gap-1">
             <ArrowLeft className="h-4 w-4" />
             Back to posts
           </Button>
         </Link>
+        {!isEditing && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="flex items-center gap-1"
+            onClick={() => setShowHistory(!showHistory)}
+          >
+            <History className="h-4 w-4" />
+            {showHistory ? "Hide history" : "History"}
+          </Button>
+        )}
       </div>
 
       {isEditing ? (
@@ -83,7 +101,9 @@ export default function PostPage() {
               initialData={{
                 title: post.title,
                 body: post.body,
-                tags: post.tags
+                tags: post.tags,
+                status: post.status,
+                publishAt: post.publishAt ? new Date(post.publishAt) : null
               }}
               postId={post.id}
               onSuccess={() => setIsEditing(false)}
@@ -105,6 +125,12 @@ export default function PostPage() {
             />
           </div>
 
+          {showHistory && (
+            <div className="mb-8">
+              <PostHistory postId={post.id} canRestore={isAuthor} />
+            </div>
+          )}
+
           <Separator className="my-8" />
 
           <div className="mt-8">
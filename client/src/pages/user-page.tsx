@@ -0,0 +1,110 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { useFeedLinks } from "@/hooks/use-feed-links";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { ArrowLeft, FileText, Loader2, MessageSquare } from "lucide-react";
+import PostList from "@/components/post-list";
+import { UserProfile } from "@shared/schema";
+
+export default function UserPage() {
+  const { id } = useParams();
+
+  const { data, isLoading, error } = useQuery<{ status: string; data: { user: UserProfile } }>({
+    queryKey: ["/api/users", id],
+  });
+
+  useFeedLinks(id ? `/users/${id}` : undefined, data?.data?.user ? `Posts by ${data.data.user.name}` : "Posts by this author");
+
+  if (isLoading) {
+    return (
+      <div className="container max-w-4xl mx-auto py-12 px-4 sm:px-6 lg:px-8 flex justify-center">
+        <div className="flex flex-col items-center">
+          <Loader2 className="h-12 w-12 animate-spin text-primary-600 mb-4" />
+          <p className="text-lg text-gray-600">Loading profile...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data || !data.data || !data.data.user) {
+    return (
+      <div className="container max-w-4xl mx-auto py-12 px-4 sm:px-6 lg:px-8">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between mb-4">
+              <Link href="/">
+                <Button variant="outline" size="sm" className="flex items-center gap-1">
+                  <ArrowLeft className="h-4 w-4" />
+                  Back to posts
+                </Button>
+              </Link>
+            </div>
+          </CardHeader>
+          <CardContent className="text-center py-12">
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">User Not Found</h1>
+            <p className="text-gray-600 mb-6">
+              The user you're looking for doesn't exist.
+            </p>
+            <Link href="/">
+              <Button>Return to Home</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const profile = data.data.user;
+
+  return (
+    <div className="container max-w-4xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+      <div className="mb-4">
+        <Link href="/">
+          <Button variant="outline" size="sm" className="flex items-center gap-1">
+            <ArrowLeft className="h-4 w-4" />
+            Back to posts
+          </Button>
+        </Link>
+      </div>
+
+      <Card className="mb-8">
+        <CardContent className="pt-6">
+          <div className="flex flex-col sm:flex-row items-center gap-6">
+            <Avatar className="h-20 w-20">
+              {profile.image && <AvatarImage src={profile.image} alt={profile.name} />}
+              <AvatarFallback className="text-2xl">
+                {profile.name.split(" ").map(n => n[0]).join("").toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1 text-center sm:text-left">
+              <div className="flex items-center justify-center sm:justify-start gap-2">
+                <h1 className="text-2xl font-bold text-gray-900">{profile.name}</h1>
+                {profile.role !== "user" && (
+                  <Badge variant="secondary" className="capitalize">{profile.role}</Badge>
+                )}
+              </div>
+              <div className="flex items-center justify-center sm:justify-start gap-4 mt-2 text-sm text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <FileText className="h-4 w-4" />
+                  {profile.postCount} {profile.postCount === 1 ? "post" : "posts"}
+                </span>
+                <span className="flex items-center gap-1">
+                  <MessageSquare className="h-4 w-4" />
+                  {profile.commentCount} {profile.commentCount === 1 ? "comment" : "comments"}
+                </span>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <h2 className="text-xl font-bold mb-4">Posts by {profile.name}</h2>
+      <Separator className="mb-6" />
+      <PostList authorId={profile.id} />
+    </div>
+  );
+}
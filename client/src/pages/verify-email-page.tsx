@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+
+export default function VerifyEmailPage() {
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token"));
+  const requested = useRef(false);
+
+  // Tokens are single-use, so the request is a mutation fired once rather than a refetchable query
+  const verifyMutation = useMutation({
+    mutationFn: async (token: string) => {
+      const res = await apiRequest("GET", `/api/verify-email?token=${encodeURIComponent(token)}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    }
+  });
+
+  useEffect(() => {
+    if (token && !requested.current) {
+      requested.current = true;
+      verifyMutation.mutate(token);
+    }
+  }, [token]);
+
+  return (
+    <div className="container max-w-md mx-auto py-12 px-4">
+      <Card>
+        <CardContent className="pt-6 text-center">
+          {verifyMutation.isSuccess ? (
+            <>
+              <CheckCircle2 className="mx-auto h-12 w-12 text-green-500 mb-4" />
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">Email verified</h1>
+              <p className="text-gray-600 mb-6">Thanks for confirming your email address.</p>
+              <Link href="/dashboard">
+                <Button>Go to Dashboard</Button>
+              </Link>
+            </>
+          ) : !token || verifyMutation.isError ? (
+            <>
+              <XCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">Verification failed</h1>
+              <p className="text-gray-600 mb-6">
+                This verification link is invalid or has expired. You can request a new one from your dashboard.
+              </p>
+              <Link href="/dashboard">
+                <Button>Go to Dashboard</Button>
+              </Link>
+            </>
+          ) : (
+            <>
+              <Loader2 className="mx-auto h-12 w-12 animate-spin text-primary-600 mb-4" />
+              <p className="text-lg text-gray-600">Verifying your email...</p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
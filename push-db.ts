@@ -3,6 +3,7 @@ import { migrate } from 'drizzle-orm/neon-serverless/migrator';
 import { Pool, neonConfig } from '@neondatabase/serverless';
 import ws from 'ws';
 import * as schema from './shared/schema';
+import { renderMarkdown, markdownExcerpt } from './server/markdown';
 
 // Required for Neon serverless
 neonConfig.webSocketConstructor = ws;
@@ -13,6 +14,29 @@ if (!process.env.DATABASE_URL) {
   process.exit(1);
 }
 
+// Add a column to an existing table, filling it in for the rows already there. The backfill
+// only runs in the step that first creates the column, so later pushes leave the data alone.
+async function addColumnWithBackfill(pool: Pool, table: string, column: string, definition: string, backfill: string) {
+  const { rowCount } = await pool.query(
+    `SELECT 1 FROM information_schema.columns WHERE table_name = $1 AND column_name = $2`,
+    [table, column]
+  );
+  if (rowCount) return;
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    await client.query(backfill);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 async function main() {
   console.log('Connecting to database...');
   const pool = new Pool({ connectionString: process.env.DATABASE_URL });
@@ -27,9 +51,15 @@ async function main() {
         name TEXT NOT NULL,
         email TEXT NOT NULL UNIQUE,
         password TEXT NOT NULL,
-        image TEXT
+        image TEXT,
+        role TEXT NOT NULL DEFAULT 'user',
+        email_verified_at TIMESTAMP
       )
     `);
+    await pool.query(`ALTER TABLE users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user'`);
+    // Accounts from before email verification count as verified, so requiring it doesn't lock them out
+    await addColumnWithBackfill(pool, 'users', 'email_verified_at', 'TIMESTAMP',
+      `UPDATE users SET email_verified_at = now() WHERE email_verified_at IS NULL`);
     console.log('Created users table');
 
     // Create posts table
@@ -38,10 +68,39 @@ async function main() {
         id SERIAL PRIMARY KEY,
         title TEXT NOT NULL,
         body TEXT NOT NULL,
+        body_html TEXT,
+        excerpt TEXT,
         author_id INTEGER NOT NULL,
-        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        status TEXT NOT NULL DEFAULT 'published',
+        publish_at TIMESTAMP,
+        expires_at TIMESTAMP,
+        deleted_at TIMESTAMP
       )
     `);
+    await pool.query(`ALTER TABLE posts ADD COLUMN IF NOT EXISTS body_html TEXT`);
+    await pool.query(`ALTER TABLE posts ADD COLUMN IF NOT EXISTS excerpt TEXT`);
+    await pool.query(`ALTER TABLE posts ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP NOT NULL DEFAULT NOW()`);
+    await pool.query(`ALTER TABLE posts ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published'`);
+    await pool.query(`ALTER TABLE posts ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP`);
+    // Posts from before per-post expiry keep the fixed 24-hour lifetime they were created with
+    await addColumnWithBackfill(pool, 'posts', 'expires_at', 'TIMESTAMP',
+      `UPDATE posts SET expires_at = created_at + interval '24 hours' WHERE expires_at IS NULL`);
+    await pool.query(`ALTER TABLE posts ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`);
+    await pool.query(`
+      ALTER TABLE posts ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+        GENERATED ALWAYS AS (
+          setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+          setweight(to_tsvector('english', coalesce(body, '')), 'B')
+        ) STORED
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS posts_search_idx ON posts USING GIN (search_vector)`);
+    // Posts created with NOW() carry microseconds, which millisecond pagination cursors cannot match
+    await pool.query(`
+      UPDATE posts SET created_at = date_trunc('milliseconds', created_at)
+      WHERE created_at <> date_trunc('milliseconds', created_at)
+    `);
     console.log('Created posts table');
 
     // Create tags table
@@ -68,14 +127,230 @@ async function main() {
       CREATE TABLE IF NOT EXISTS comments (
         id SERIAL PRIMARY KEY,
         body TEXT NOT NULL,
+        body_html TEXT,
         author_id INTEGER NOT NULL,
         post_id INTEGER NOT NULL,
-        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        parent_id INTEGER,
+        depth INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        deleted_at TIMESTAMP
       )
     `);
+    await pool.query(`ALTER TABLE comments ADD COLUMN IF NOT EXISTS body_html TEXT`);
+    await pool.query(`ALTER TABLE comments ADD COLUMN IF NOT EXISTS parent_id INTEGER`);
+    await pool.query(`ALTER TABLE comments ADD COLUMN IF NOT EXISTS depth INTEGER NOT NULL DEFAULT 0`);
+    await pool.query(`ALTER TABLE comments ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`);
+    await pool.query(`
+      ALTER TABLE comments ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+        GENERATED ALWAYS AS (to_tsvector('english', coalesce(body, ''))) STORED
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS comments_search_idx ON comments USING GIN (search_vector)`);
     console.log('Created comments table');
 
+    // Create post_revisions table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS post_revisions (
+        id SERIAL PRIMARY KEY,
+        post_id INTEGER NOT NULL,
+        revision INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        body TEXT NOT NULL,
+        editor_id INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    await pool.query(`CREATE UNIQUE INDEX IF NOT EXISTS post_revisions_post_revision_idx ON post_revisions (post_id, revision)`);
+    console.log('Created post_revisions table');
+
+    // Create attachments table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS attachments (
+        id SERIAL PRIMARY KEY,
+        post_id INTEGER,
+        uploader_id INTEGER NOT NULL,
+        storage_key TEXT NOT NULL UNIQUE,
+        filename TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    console.log('Created attachments table');
+
+    // Create refresh_tokens table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        family_id TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        revoked_at TIMESTAMP
+      )
+    `);
+    console.log('Created refresh_tokens table');
+
+    // Create revoked_tokens table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS revoked_tokens (
+        id SERIAL PRIMARY KEY,
+        family_id TEXT NOT NULL UNIQUE,
+        expires_at TIMESTAMP NOT NULL
+      )
+    `);
+    console.log('Created revoked_tokens table');
+
+    // Create password_reset_tokens table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS password_reset_tokens (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        used_at TIMESTAMP
+      )
+    `);
+    console.log('Created password_reset_tokens table');
+
+    // Create email_verification_tokens table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS email_verification_tokens (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        used_at TIMESTAMP
+      )
+    `);
+    console.log('Created email_verification_tokens table');
+
+    // Create two_factor_secrets table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS two_factor_secrets (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL UNIQUE,
+        secret TEXT NOT NULL,
+        enabled_at TIMESTAMP,
+        last_used_step INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    console.log('Created two_factor_secrets table');
+
+    // Create recovery_codes table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS recovery_codes (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        code_hash TEXT NOT NULL,
+        used_at TIMESTAMP
+      )
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS recovery_codes_user_idx ON recovery_codes (user_id)`);
+    console.log('Created recovery_codes table');
+
+    // Create api_keys table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        scope TEXT NOT NULL DEFAULT 'read',
+        last_used_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        revoked_at TIMESTAMP
+      )
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS api_keys_user_idx ON api_keys (user_id)`);
+    console.log('Created api_keys table');
+
+    // Create webhooks table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events TEXT[] NOT NULL,
+        active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    console.log('Created webhooks table');
+
+    // Create webhook_deliveries table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id SERIAL PRIMARY KEY,
+        webhook_id INTEGER NOT NULL,
+        event TEXT NOT NULL,
+        payload JSONB NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMP,
+        response_status INTEGER,
+        error TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        delivered_at TIMESTAMP
+      )
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS webhook_deliveries_webhook_idx ON webhook_deliveries (webhook_id, created_at)`);
+    await pool.query(`CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx ON webhook_deliveries (status, next_attempt_at)`);
+    console.log('Created webhook_deliveries table');
+
+    // Create notifications table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS notifications (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        post_id INTEGER NOT NULL,
+        comment_id INTEGER,
+        actor_id INTEGER,
+        post_expires_at TIMESTAMP,
+        read_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS notifications_user_idx ON notifications (user_id, created_at)`);
+    await pool.query(`CREATE UNIQUE INDEX IF NOT EXISTS notifications_post_expiry_idx ON notifications (post_id, post_expires_at)`);
+    console.log('Created notifications table');
+
+    // Create audit_logs table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS audit_logs (
+        id SERIAL PRIMARY KEY,
+        action TEXT NOT NULL,
+        user_id INTEGER,
+        ip TEXT,
+        details JSONB,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    await pool.query(`CREATE INDEX IF NOT EXISTS audit_logs_created_at_idx ON audit_logs (created_at)`);
+    console.log('Created audit_logs table');
+
     console.log('All tables created successfully');
+
+    // Render Markdown for rows written before bodies were pre-rendered
+    const { rows: unrenderedPosts } = await pool.query(`SELECT id, body FROM posts WHERE body_html IS NULL`);
+    for (const post of unrenderedPosts) {
+      await pool.query(
+        `UPDATE posts SET body_html = $1, excerpt = $2 WHERE id = $3`,
+        [renderMarkdown(post.body), markdownExcerpt(post.body), post.id]
+      );
+    }
+    const { rows: unrenderedComments } = await pool.query(`SELECT id, body FROM comments WHERE body_html IS NULL`);
+    for (const comment of unrenderedComments) {
+      await pool.query(`UPDATE comments SET body_html = $1 WHERE id = $2`, [renderMarkdown(comment.body), comment.id]);
+    }
+    console.log(`Rendered ${unrenderedPosts.length} posts and ${unrenderedComments.length} comments`);
   } catch (error) {
     console.error('Error creating tables:', error);
   } finally {
@@ -3,21 +3,72 @@ import { Strategy as LocalStrategy } from "passport-local";
 import { Express, Request, Response, NextFunction } from "express";
 import session from "express-session";
 import jwt from "jsonwebtoken";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, randomUUID, createHash, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User, InsertUser, insertUserSchema } from "@shared/schema";
+import { authenticate, rejectApiKey } from "./middleware/authMiddleware";
+import { mailer } from "./mailer";
+import { rateLimit, rateLimitStore, sendTooManyRequests } from "./rate-limit";
+import { generateTotpSecret, totpUri, verifyTotp, generateRecoveryCodes, normalizeRecoveryCode } from "./totp";
+import { User as SelectUser, InsertUser, TwoFactorSecret, ApiKey, PublicApiKey, insertUserSchema, updateProfileSchema, forgotPasswordSchema, resetPasswordSchema, twoFactorCodeSchema, twoFactorLoginSchema, disableTwoFactorSchema, createApiKeySchema } from "@shared/schema";
 
 // Make TypeScript recognize user in the session
 declare global {
   namespace Express {
-    interface User extends User {}
+    interface User extends SelectUser {}
+    interface Request {
+      // Set when the request was authenticated with a personal API key
+      apiKey?: ApiKey;
+    }
   }
 }
 
 const scryptAsync = promisify(scrypt);
 const JWT_SECRET = process.env.JWT_SECRET || "blog-api-secret-key";
 
+// Access tokens are short-lived; clients renew them with a rotating refresh token
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_DAYS = 30;
+
+// Between the password and the second factor, the client holds a short-lived challenge token.
+// It is signed with its own secret so it can never pass as an access token.
+const TWO_FACTOR_CHALLENGE_SECRET = `${JWT_SECRET}:two-factor`;
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+const TOTP_ISSUER = process.env.TOTP_ISSUER || "Blog API";
+
+// Links in expiry warning emails carry a token signed with their own secret
+const POST_EXTENSION_SECRET = `${JWT_SECRET}:extend-post`;
+
+// Personal API keys look like "blog_<random>"; the first characters are kept in plain text for display
+const API_KEY_PREFIX = "blog_";
+const API_KEY_PREFIX_LENGTH = 12;
+
+// Password reset links are single-use and expire quickly
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_HOURS = 24;
+
+// Brute-force protection: attempt limits per IP and per email, plus a lockout after repeated failures
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const LOGIN_ATTEMPTS_PER_IP = 20;
+const LOGIN_ATTEMPTS_PER_EMAIL = 10;
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const REGISTER_WINDOW_MS = 60 * 60 * 1000;
+const REGISTRATIONS_PER_IP = 5;
+const PASSWORD_RESET_WINDOW_MS = 60 * 60 * 1000;
+const PASSWORD_RESETS_PER_IP = 10;
+const PASSWORD_RESETS_PER_EMAIL = 3;
+
+function requestEmail(req: Request): string | undefined {
+  return typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() || undefined : undefined;
+}
+
+const loginIpLimit = rateLimit({ name: "login-ip", limit: LOGIN_ATTEMPTS_PER_IP, windowMs: LOGIN_WINDOW_MS, key: req => req.ip });
+const loginEmailLimit = rateLimit({ name: "login-email", limit: LOGIN_ATTEMPTS_PER_EMAIL, windowMs: LOGIN_WINDOW_MS, key: requestEmail });
+const registerIpLimit = rateLimit({ name: "register-ip", limit: REGISTRATIONS_PER_IP, windowMs: REGISTER_WINDOW_MS, key: req => req.ip });
+const passwordResetIpLimit = rateLimit({ name: "password-reset-ip", limit: PASSWORD_RESETS_PER_IP, windowMs: PASSWORD_RESET_WINDOW_MS, key: req => req.ip });
+const passwordResetEmailLimit = rateLimit({ name: "password-reset-email", limit: PASSWORD_RESETS_PER_EMAIL, windowMs: PASSWORD_RESET_WINDOW_MS, key: requestEmail });
+
 // Hash password with scrypt and salt
 async function hashPassword(password: string): Promise<string> {
   const salt = randomBytes(16).toString("hex");
@@ -33,16 +84,200 @@ async function comparePasswords(supplied: string, stored: string): Promise<boole
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-// Generate JWT token for a user
-function generateToken(user: User): string {
+// Generate JWT access token for a user; fam ties it to its refresh token family
+function generateToken(user: SelectUser, familyId: string): string {
   return jwt.sign(
-    { id: user.id, email: user.email, name: user.name },
+    { id: user.id, email: user.email, name: user.name, role: user.role, fam: familyId },
     JWT_SECRET,
-    { expiresIn: "24h" }
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
   );
 }
 
-export function setupAuth(app: Express): void {
+// Refresh tokens are random secrets; only their SHA-256 hash is stored
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+}
+
+function toPublicApiKey({ keyHash, ...apiKey }: ApiKey): PublicApiKey {
+  return apiKey;
+}
+
+// Issue an access token plus a new refresh token, starting a new family unless one is given
+async function issueTokens(user: SelectUser, familyId: string = randomUUID()) {
+  const refreshToken = randomBytes(48).toString("hex");
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_TTL_DAYS);
+
+  await storage.createRefreshToken({
+    userId: user.id,
+    familyId,
+    tokenHash: hashToken(refreshToken),
+    expiresAt
+  });
+
+  return {
+    token: generateToken(user, familyId),
+    refreshToken
+  };
+}
+
+// Reject every token in the family, including access tokens that have not expired yet
+async function revokeTokenFamily(familyId: string): Promise<void> {
+  const until = new Date(Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000);
+  await storage.revokeTokenFamily(familyId, until);
+}
+
+// Token family of the request's bearer access token, if it carries a valid one
+function bearerTokenFamily(req: Request): string | undefined {
+  const bearerToken = req.headers.authorization?.startsWith("Bearer ") ? req.headers.authorization.slice(7) : undefined;
+  if (!bearerToken) return undefined;
+
+  try {
+    return (jwt.verify(bearerToken, JWT_SECRET) as { fam?: string }).fam;
+  } catch (error) {
+    // An expired or invalid access token belongs to no live family
+    return undefined;
+  }
+}
+
+// Sessions remember a fingerprint of the password hash, so changing the password signs out every other session
+function credentialFingerprint(user: SelectUser): string {
+  return hashToken(user.password).slice(0, 16);
+}
+
+// Links in emails point at the client app; APP_URL overrides the request's own origin behind proxies.
+// Emails sent outside a request, such as by the scheduler, fall back to the port the server listens on.
+export function appUrl(req: Request | undefined, pathname: string): string {
+  const origin = process.env.APP_URL || (req ? `${req.protocol}://${req.get("host")}` : "http://localhost:5000");
+  return new URL(pathname, origin).toString();
+}
+
+// Extend a post from its expiry warning email without signing in. The token is bound to the
+// expiry it warned about, so it stops working once the post has been extended or deleted.
+export function signPostExtensionToken(post: { id: number; expiresAt: Date }): string {
+  return jwt.sign(
+    { post: post.id, until: post.expiresAt.getTime() },
+    POST_EXTENSION_SECRET,
+    { expiresIn: Math.max(1, Math.ceil((post.expiresAt.getTime() - Date.now()) / 1000)) }
+  );
+}
+
+export function verifyPostExtensionToken(token: string, post: { id: number; expiresAt: Date | null }): boolean {
+  try {
+    const decoded = jwt.verify(token, POST_EXTENSION_SECRET) as { post: number; until: number };
+    return decoded.post === post.id && decoded.until === post.expiresAt?.getTime();
+  } catch (error) {
+    return false;
+  }
+}
+
+// Check an authenticator code, or a recovery code when that is what was given
+async function verifySecondFactor(twoFactor: TwoFactorSecret, code?: string, recoveryCode?: string): Promise<boolean> {
+  if (code && /^\d{6}$/.test(code)) {
+    const step = verifyTotp(twoFactor.secret, code);
+    // Each code is accepted once, even within its validity window
+    return step !== undefined && await storage.useTwoFactorStep(twoFactor.userId, step);
+  }
+
+  const recovery = recoveryCode ?? code;
+  if (recovery) {
+    return storage.consumeRecoveryCode(twoFactor.userId, hashToken(normalizeRecoveryCode(recovery)), new Date());
+  }
+
+  return false;
+}
+
+// Issue a fresh set of recovery codes, returning them in plain text for the user to save
+async function issueRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await storage.replaceRecoveryCodes(userId, codes.map(code => hashToken(normalizeRecoveryCode(code))));
+  return codes;
+}
+
+// Count a failed login; returns the lockout duration if this failure locked the account
+async function recordFailedLogin(req: Request, email: string): Promise<number | undefined> {
+  const failures = await rateLimitStore.hit(`login-failures:${email}`, LOGIN_WINDOW_MS);
+  if (failures.count < MAX_FAILED_LOGINS) return undefined;
+
+  const until = new Date(Date.now() + LOCKOUT_MS);
+  await rateLimitStore.lock(`lockout:${email}`, LOCKOUT_MS);
+  await rateLimitStore.reset(`login-failures:${email}`);
+
+  const user = await storage.getUserByEmail(email);
+  await storage.createAuditLog({
+    action: "account_locked",
+    userId: user?.id ?? null,
+    ip: req.ip ?? null,
+    details: {
+      email,
+      failedAttempts: failures.count,
+      lockedUntil: until.toISOString()
+    }
+  });
+
+  return LOCKOUT_MS;
+}
+
+// Start a session for a fully authenticated user and respond with their tokens
+function completeLogin(req: Request, res: Response, next: NextFunction, user: SelectUser): void {
+  req.login(user, async (err) => {
+    if (err) return next(err);
+
+    try {
+      // A successful login clears the failure streak
+      await rateLimitStore.reset(`login-failures:${user.email.toLowerCase()}`);
+
+      // Generate JWT tokens
+      const tokens = await issueTokens(user);
+
+      // Remove password from response
+      const { password, ...userWithoutPassword } = user;
+
+      res.json({
+        status: "success",
+        data: {
+          user: userWithoutPassword,
+          ...tokens
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+}
+
+// Email a single-use link proving the user owns their email address
+async function sendVerificationEmail(req: Request, user: SelectUser): Promise<void> {
+  const token = randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+
+  await storage.createEmailVerificationToken({
+    userId: user.id,
+    tokenHash: hashToken(token),
+    expiresAt
+  });
+
+  await mailer.send({
+    to: user.email,
+    subject: "Verify your email address",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      "Please confirm your email address by opening the link below:",
+      "",
+      appUrl(req, `/verify-email?token=${token}`),
+      "",
+      `The link expires in ${EMAIL_VERIFICATION_TTL_HOURS} hours.`
+    ].join("\n")
+  });
+}
+
+// Session and passport middleware; install before anything that needs to know who is signed in
+export function setupSession(app: Express): void {
   // Session configuration
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "blog-session-secret",
@@ -58,7 +293,10 @@ export function setupAuth(app: Express): void {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+}
 
+// Auth strategies and account routes; expects setupSession to have run
+export function setupAuth(app: Express): void {
   // Configure local strategy for passport
   passport.use(
     new LocalStrategy(
@@ -78,18 +316,23 @@ export function setupAuth(app: Express): void {
   );
 
   // Serialize/deserialize user
-  passport.serializeUser((user, done) => done(null, user.id));
-  passport.deserializeUser(async (id: number, done) => {
+  passport.serializeUser((user, done) => done(null, { id: user.id, credentials: credentialFingerprint(user) }));
+  passport.deserializeUser(async (serialized: number | { id: number; credentials: string }, done) => {
     try {
-      const user = await storage.getUser(id);
-      done(null, user);
+      // Sessions from before fingerprinting hold only the user id
+      if (typeof serialized === "number") {
+        return done(null, await storage.getUser(serialized));
+      }
+
+      const user = await storage.getUser(serialized.id);
+      done(null, user && credentialFingerprint(user) === serialized.credentials ? user : false);
     } catch (error) {
       done(error);
     }
   });
 
   // Register route handler
-  app.post("/api/register", async (req, res, next) => {
+  app.post("/api/register", registerIpLimit, async (req, res, next) => {
     try {
       // Validate input
       const result = insertUserSchema.safeParse(req.body);
@@ -125,8 +368,15 @@ export function setupAuth(app: Express): void {
         image
       });
 
-      // Generate JWT token
-      const token = generateToken(user);
+      // A mail delivery problem shouldn't fail registration; a new link can be requested later
+      try {
+        await sendVerificationEmail(req, user);
+      } catch (error) {
+        console.error("Failed to send verification email:", error);
+      }
+
+      // Generate JWT tokens
+      const tokens = await issueTokens(user);
 
       // Remove password from response
       const { password: _, ...userWithoutPassword } = user;
@@ -139,7 +389,7 @@ export function setupAuth(app: Express): void {
           status: "success",
           data: {
             user: userWithoutPassword,
-            token
+            ...tokens
           }
         });
       });
@@ -149,11 +399,33 @@ export function setupAuth(app: Express): void {
   });
 
   // Login route handler
-  app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err, user, info) => {
+  app.post("/api/login", loginIpLimit, loginEmailLimit, async (req, res, next) => {
+    const email = requestEmail(req);
+    const lockoutMessage = "Too many failed login attempts, please try again later";
+    
+    try {
+      // Locked accounts are refused before the password is even checked
+      const lockedFor = email && await rateLimitStore.lockedFor(`lockout:${email}`);
+      if (lockedFor) {
+        return sendTooManyRequests(res, lockedFor, lockoutMessage);
+      }
+    } catch (error) {
+      return next(error);
+    }
+    
+    passport.authenticate("local", async (err: unknown, user: SelectUser | false, info?: { message?: string }) => {
       if (err) return next(err);
       
       if (!user) {
+        try {
+          const lockedFor = email && await recordFailedLogin(req, email);
+          if (lockedFor) {
+            return sendTooManyRequests(res, lockedFor, lockoutMessage);
+          }
+        } catch (error) {
+          return next(error);
+        }
+        
         return res.status(401).json({
           status: "error",
           error: {
@@ -162,65 +434,717 @@ export function setupAuth(app: Express): void {
         });
       }
       
-      req.login(user, (err) => {
-        if (err) return next(err);
-        
-        // Generate JWT token
-        const token = generateToken(user);
-        
-        // Remove password from response
-        const { password, ...userWithoutPassword } = user;
-        
-        res.json({
-          status: "success",
-          data: {
-            user: userWithoutPassword,
-            token
+      try {
+        // With 2FA on, the password alone only earns a challenge for the second step
+        const twoFactor = await storage.getTwoFactorSecret(user.id);
+        if (twoFactor?.enabledAt) {
+          const challengeToken = jwt.sign(
+            { id: user.id },
+            TWO_FACTOR_CHALLENGE_SECRET,
+            { expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS }
+          );
+          
+          return res.json({
+            status: "success",
+            data: {
+              twoFactorRequired: true,
+              challengeToken
+            }
+          });
+        }
+      } catch (error) {
+        return next(error);
+      }
+      
+      completeLogin(req, res, next, user);
+    })(req, res, next);
+  });
+
+  // Second login step: exchanges a challenge token plus an authenticator or recovery code for a session
+  app.post("/api/login/2fa", loginIpLimit, async (req, res, next) => {
+    try {
+      const result = twoFactorLoginSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+
+      let userId: number;
+      try {
+        userId = (jwt.verify(result.data.challengeToken, TWO_FACTOR_CHALLENGE_SECRET) as { id: number }).id;
+      } catch (error) {
+        return res.status(401).json({
+          status: "error",
+          error: {
+            message: "Login challenge is invalid or has expired, please log in again"
+          }
+        });
+      }
+
+      const user = await storage.getUser(userId);
+      const twoFactor = user && await storage.getTwoFactorSecret(user.id);
+      if (!user || !twoFactor?.enabledAt) {
+        return res.status(401).json({
+          status: "error",
+          error: {
+            message: "Login challenge is invalid or has expired, please log in again"
+          }
+        });
+      }
+
+      // Wrong codes count towards the same lockout as wrong passwords
+      const email = user.email.toLowerCase();
+      const lockoutMessage = "Too many failed login attempts, please try again later";
+      const lockedFor = await rateLimitStore.lockedFor(`lockout:${email}`);
+      if (lockedFor) {
+        return sendTooManyRequests(res, lockedFor, lockoutMessage);
+      }
+
+      if (!(await verifySecondFactor(twoFactor, result.data.code, result.data.recoveryCode))) {
+        const lockedFor = await recordFailedLogin(req, email);
+        if (lockedFor) {
+          return sendTooManyRequests(res, lockedFor, lockoutMessage);
+        }
+
+        return res.status(401).json({
+          status: "error",
+          error: {
+            message: "Invalid authentication code"
+          }
+        });
+      }
+
+      completeLogin(req, res, next, user);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Refresh token route handler: rotates the refresh token and issues a new access token
+  app.post("/api/token/refresh", async (req, res, next) => {
+    try {
+      const refreshToken = req.body?.refreshToken;
+      if (typeof refreshToken !== "string" || !refreshToken) {
+        return res.status(400).json({
+          status: "error",
+          error: {
+            message: "Refresh token required"
+          }
+        });
+      }
+
+      const stored = await storage.getRefreshTokenByHash(hashToken(refreshToken));
+      if (!stored || stored.expiresAt < new Date()) {
+        return res.status(401).json({
+          status: "error",
+          error: {
+            message: "Invalid or expired refresh token"
+          }
+        });
+      }
+
+      // A rotated token being replayed means it leaked: shut down the whole family
+      if (stored.revokedAt) {
+        await revokeTokenFamily(stored.familyId);
+        return res.status(401).json({
+          status: "error",
+          error: {
+            message: "Refresh token has been revoked"
           }
         });
+      }
+
+      const user = await storage.getUser(stored.userId);
+      if (!user) {
+        return res.status(401).json({
+          status: "error",
+          error: {
+            message: "User not found"
+          }
+        });
+      }
+
+      // Another request rotated the token after the check above: treat it as a replay too
+      const rotated = await storage.revokeRefreshToken(stored.id);
+      if (!rotated) {
+        await revokeTokenFamily(stored.familyId);
+        return res.status(401).json({
+          status: "error",
+          error: {
+            message: "Refresh token has been revoked"
+          }
+        });
+      }
+
+      const tokens = await issueTokens(user, stored.familyId);
+
+      res.json({
+        status: "success",
+        data: tokens
       });
-    })(req, res, next);
+    } catch (error) {
+      next(error);
+    }
   });
 
   // Logout route handler
-  app.post("/api/logout", (req, res, next) => {
-    req.logout((err) => {
-      if (err) return next(err);
+  app.post("/api/logout", async (req, res, next) => {
+    try {
+      // Revoke the token family of the bearer token and/or the supplied refresh token
+      const familyIds = new Set<string>();
+
+      const bearerFamily = bearerTokenFamily(req);
+      if (bearerFamily) familyIds.add(bearerFamily);
+
+      if (typeof req.body?.refreshToken === "string") {
+        const stored = await storage.getRefreshTokenByHash(hashToken(req.body.refreshToken));
+        if (stored) familyIds.add(stored.familyId);
+      }
+
+      for (const familyId of Array.from(familyIds)) {
+        await revokeTokenFamily(familyId);
+      }
+
+      req.logout((err) => {
+        if (err) return next(err);
+        res.json({ status: "success" });
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Forgot password route handler: emails a reset link if the account exists
+  app.post("/api/password/forgot", passwordResetIpLimit, passwordResetEmailLimit, async (req, res, next) => {
+    try {
+      const result = forgotPasswordSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+
+      // Respond the same way whether or not the account exists, so emails can't be enumerated
+      const user = await storage.getUserByEmail(result.data.email);
+      if (user) {
+        const token = randomBytes(32).toString("hex");
+        const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+
+        await storage.createPasswordResetToken({
+          userId: user.id,
+          tokenHash: hashToken(token),
+          expiresAt
+        });
+
+        // A delivery failure must look the same as an unknown email, or the response would reveal the account
+        try {
+          await mailer.send({
+            to: user.email,
+            subject: "Reset your password",
+            text: [
+              `Hi ${user.name},`,
+              "",
+              "Someone asked to reset the password for your account. Use the link below to choose a new one:",
+              "",
+              appUrl(req, `/auth?reset=${token}`),
+              "",
+              `The link expires in ${PASSWORD_RESET_TTL_MINUTES} minutes and can only be used once.`,
+              "If you didn't ask for this, you can ignore this email."
+            ].join("\n")
+          });
+        } catch (error) {
+          console.error("Failed to send password reset email:", error);
+        }
+      }
+
+      res.json({ status: "success" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Reset password route handler: redeems a reset token and revokes the user's existing tokens
+  app.post("/api/password/reset", async (req, res, next) => {
+    try {
+      const result = resetPasswordSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+
+      const resetToken = await storage.consumePasswordResetToken(hashToken(result.data.token), new Date());
+      if (!resetToken) {
+        return res.status(400).json({
+          status: "error",
+          error: {
+            message: "Invalid or expired reset token"
+          }
+        });
+      }
+
+      const user = await storage.updateUser(resetToken.userId, {
+        password: await hashPassword(result.data.password)
+      });
+      if (!user) {
+        return res.status(400).json({
+          status: "error",
+          error: {
+            message: "Invalid or expired reset token"
+          }
+        });
+      }
+
+      // Whoever knew the old password must not keep an API session
+      for (const familyId of await storage.getActiveTokenFamilies(user.id)) {
+        await revokeTokenFamily(familyId);
+      }
+
+      res.json({ status: "success" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Verify email route handler: redeems the token from a verification link
+  app.get("/api/verify-email", async (req, res, next) => {
+    try {
+      const token = req.query.token;
+      if (typeof token !== "string" || !token) {
+        return res.status(400).json({
+          status: "error",
+          error: {
+            message: "Verification token required"
+          }
+        });
+      }
+
+      const verificationToken = await storage.consumeEmailVerificationToken(hashToken(token), new Date());
+      const user = verificationToken && await storage.verifyUserEmail(verificationToken.userId, new Date());
+      if (!user) {
+        return res.status(400).json({
+          status: "error",
+          error: {
+            message: "Invalid or expired verification token"
+          }
+        });
+      }
+
+      const { password, ...userWithoutPassword } = user;
+
+      res.json({
+        status: "success",
+        data: {
+          user: userWithoutPassword
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Resend verification route handler
+  app.post("/api/verify-email/resend", authenticate, async (req, res, next) => {
+    try {
+      if (req.user!.emailVerifiedAt) {
+        return res.status(400).json({
+          status: "error",
+          error: {
+            message: "Email address is already verified"
+          }
+        });
+      }
+
+      await sendVerificationEmail(req, req.user!);
+
       res.json({ status: "success" });
-    });
+    } catch (error) {
+      next(error);
+    }
   });
 
   // Current user route handler
-  app.get("/api/user", (req, res) => {
-    if (!req.isAuthenticated() && !req.headers.authorization) {
-      return res.status(401).json({
-        status: "error",
-        error: {
-          message: "Not authenticated"
+  app.get("/api/user", authenticate, (req, res) => {
+    const { password, ...userWithoutPassword } = req.user!;
+    res.json(userWithoutPassword);
+  });
+
+  // Update the current user's profile
+  app.patch("/api/user", authenticate, rejectApiKey, async (req, res, next) => {
+    try {
+      const result = updateProfileSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+
+      const { currentPassword, ...changes } = result.data;
+      const user = req.user!;
+
+      // Credentials only change when the caller proves they know the current password
+      if (changes.email !== undefined || changes.password !== undefined) {
+        if (!currentPassword || !(await comparePasswords(currentPassword, user.password))) {
+          return res.status(403).json({
+            status: "error",
+            error: {
+              message: "Current password is incorrect"
+            }
+          });
+        }
+      }
+
+      if (changes.email !== undefined && changes.email !== user.email) {
+        const existingUser = await storage.getUserByEmail(changes.email);
+        if (existingUser) {
+          return res.status(400).json({
+            status: "error",
+            error: {
+              message: "Email already in use"
+            }
+          });
+        }
+      }
+
+      if (changes.password !== undefined) {
+        changes.password = await hashPassword(changes.password);
+      }
+
+      const updatedUser = await storage.updateUser(user.id, changes);
+      if (!updatedUser) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "User not found"
+          }
+        });
+      }
+
+      // The change is already saved, so a mail delivery problem shouldn't fail the request; a new link can be requested later
+      if (updatedUser.email !== user.email) {
+        try {
+          await sendVerificationEmail(req, updatedUser);
+        } catch (error) {
+          console.error("Failed to send verification email:", error);
+        }
+      }
+
+      // As with a reset, other devices must sign in again with the new password; the
+      // caller keeps their own token family and, by logging in again, their session
+      if (changes.password !== undefined) {
+        const currentFamily = bearerTokenFamily(req);
+        for (const familyId of await storage.getActiveTokenFamilies(user.id)) {
+          if (familyId !== currentFamily) await revokeTokenFamily(familyId);
+        }
+
+        if ((req.session as { passport?: { user?: unknown } } | undefined)?.passport?.user !== undefined) {
+          await new Promise<void>((resolve, reject) => req.login(updatedUser, err => err ? reject(err) : resolve()));
+        }
+      }
+
+      const { password, ...userWithoutPassword } = updatedUser;
+
+      res.json({
+        status: "success",
+        data: {
+          user: userWithoutPassword
         }
       });
+    } catch (error) {
+      next(error);
     }
+  });
 
-    // JWT authentication
-    if (req.headers.authorization) {
-      const token = req.headers.authorization.split(" ")[1];
-      try {
-        const decoded = jwt.verify(token, JWT_SECRET) as { id: number, email: string, name: string };
-        return res.json(decoded);
-      } catch (error) {
-        return res.status(401).json({
+  // Two-factor status route handler
+  app.get("/api/2fa", authenticate, async (req, res, next) => {
+    try {
+      const twoFactor = await storage.getTwoFactorSecret(req.user!.id);
+      const enabled = !!twoFactor?.enabledAt;
+
+      res.json({
+        status: "success",
+        data: {
+          enabled,
+          recoveryCodesRemaining: enabled ? await storage.countRecoveryCodes(req.user!.id) : 0
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Two-factor setup route handler: creates a pending secret to add to an authenticator app
+  app.post("/api/2fa/setup", authenticate, rejectApiKey, async (req, res, next) => {
+    try {
+      const user = req.user!;
+      const existing = await storage.getTwoFactorSecret(user.id);
+      if (existing?.enabledAt) {
+        return res.status(400).json({
+          status: "error",
+          error: {
+            message: "Two-factor authentication is already enabled"
+          }
+        });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.saveTwoFactorSecret(user.id, secret);
+
+      res.json({
+        status: "success",
+        data: {
+          secret,
+          otpauthUri: totpUri(secret, user.email, TOTP_ISSUER)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Two-factor enable route handler: confirms the pending secret with a first code
+  app.post("/api/2fa/enable", authenticate, rejectApiKey, async (req, res, next) => {
+    try {
+      const result = twoFactorCodeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+
+      const user = req.user!;
+      const twoFactor = await storage.getTwoFactorSecret(user.id);
+      if (!twoFactor || twoFactor.enabledAt) {
+        return res.status(400).json({
+          status: "error",
+          error: {
+            message: twoFactor ? "Two-factor authentication is already enabled" : "Start two-factor setup first"
+          }
+        });
+      }
+
+      if (!(await verifySecondFactor(twoFactor, result.data.code))) {
+        return res.status(400).json({
+          status: "error",
+          error: {
+            message: "Invalid authentication code"
+          }
+        });
+      }
+
+      await storage.enableTwoFactor(user.id, new Date());
+      const recoveryCodes = await issueRecoveryCodes(user.id);
+      await storage.createAuditLog({ action: "two_factor_enabled", userId: user.id, ip: req.ip ?? null });
+
+      res.json({
+        status: "success",
+        data: {
+          recoveryCodes
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Two-factor disable route handler: needs the password and a current code
+  app.post("/api/2fa/disable", authenticate, rejectApiKey, async (req, res, next) => {
+    try {
+      const result = disableTwoFactorSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+
+      const user = req.user!;
+      const twoFactor = await storage.getTwoFactorSecret(user.id);
+      if (!twoFactor?.enabledAt) {
+        return res.status(400).json({
+          status: "error",
+          error: {
+            message: "Two-factor authentication is not enabled"
+          }
+        });
+      }
+
+      if (!(await comparePasswords(result.data.password, user.password)) ||
+          !(await verifySecondFactor(twoFactor, result.data.code))) {
+        return res.status(403).json({
+          status: "error",
+          error: {
+            message: "Password or authentication code is incorrect"
+          }
+        });
+      }
+
+      await storage.deleteTwoFactor(user.id);
+      await storage.createAuditLog({ action: "two_factor_disabled", userId: user.id, ip: req.ip ?? null });
+
+      res.json({ status: "success" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Recovery codes route handler: replaces all remaining codes with a new set
+  app.post("/api/2fa/recovery-codes", authenticate, rejectApiKey, async (req, res, next) => {
+    try {
+      const result = twoFactorCodeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+
+      const user = req.user!;
+      const twoFactor = await storage.getTwoFactorSecret(user.id);
+      if (!twoFactor?.enabledAt) {
+        return res.status(400).json({
+          status: "error",
+          error: {
+            message: "Two-factor authentication is not enabled"
+          }
+        });
+      }
+
+      if (!(await verifySecondFactor(twoFactor, result.data.code))) {
+        return res.status(403).json({
+          status: "error",
+          error: {
+            message: "Invalid authentication code"
+          }
+        });
+      }
+
+      const recoveryCodes = await issueRecoveryCodes(user.id);
+
+      res.json({
+        status: "success",
+        data: {
+          recoveryCodes
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // API key list route handler
+  app.get("/api/api-keys", authenticate, async (req, res, next) => {
+    try {
+      const keys = await storage.getApiKeysByUser(req.user!.id);
+
+      res.json({
+        status: "success",
+        data: {
+          apiKeys: keys.map(toPublicApiKey)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // API key create route handler; the key itself is only ever returned here
+  app.post("/api/api-keys", authenticate, rejectApiKey, async (req, res, next) => {
+    try {
+      const result = createApiKeySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(422).json({
           status: "error",
           error: {
-            message: "Invalid token"
+            message: "Validation failed",
+            details: result.error.format()
           }
         });
       }
+
+      const user = req.user!;
+      const key = generateApiKey();
+      const apiKey = await storage.createApiKey({
+        userId: user.id,
+        name: result.data.name,
+        scope: result.data.scope,
+        prefix: key.slice(0, API_KEY_PREFIX_LENGTH),
+        keyHash: hashToken(key)
+      });
+      await storage.createAuditLog({
+        action: "api_key_created",
+        userId: user.id,
+        ip: req.ip ?? null,
+        details: { apiKeyId: apiKey.id, scope: apiKey.scope }
+      });
+
+      res.status(201).json({
+        status: "success",
+        data: {
+          apiKey: toPublicApiKey(apiKey),
+          key
+        }
+      });
+    } catch (error) {
+      next(error);
     }
+  });
+
+  // API key revoke route handler
+  app.delete("/api/api-keys/:id", authenticate, rejectApiKey, async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const revoked = isNaN(id) ? undefined : await storage.revokeApiKey(id, req.user!.id, new Date());
 
-    // Session authentication
-    if (req.user) {
-      const { password, ...userWithoutPassword } = req.user;
-      return res.json(userWithoutPassword);
+      if (!revoked) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "API key not found"
+          }
+        });
+      }
+
+      await storage.createAuditLog({
+        action: "api_key_revoked",
+        userId: req.user!.id,
+        ip: req.ip ?? null,
+        details: { apiKeyId: revoked.id }
+      });
+
+      res.json({
+        status: "success",
+        data: null
+      });
+    } catch (error) {
+      next(error);
     }
   });
 }
@@ -230,5 +1154,6 @@ export {
   generateToken,
   hashPassword,
   comparePasswords,
+  hashToken,
   JWT_SECRET
 };
@@ -0,0 +1,14 @@
+import type { PostCursor } from "./storage";
+
+// Cursors are opaque to clients: base64url of "<createdAt ISO>|<id>"
+export function encodeCursor(cursor: PostCursor): string {
+  return Buffer.from(`${cursor.createdAt.toISOString()}|${cursor.id}`).toString("base64url");
+}
+
+export function decodeCursor(value: string): PostCursor | undefined {
+  const [createdAt, id] = Buffer.from(value, "base64url").toString().split("|");
+  const cursor = { createdAt: new Date(createdAt), id: parseInt(id) };
+  
+  if (isNaN(cursor.createdAt.getTime()) || isNaN(cursor.id)) return undefined;
+  return cursor;
+}
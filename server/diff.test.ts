@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { DiffLine } from "@shared/schema";
+import { diffLines, isDiffTooLarge, MAX_DIFF_LINES } from "./diff";
+
+const unchanged = (text: string): DiffLine => ({ type: "unchanged", text });
+const added = (text: string): DiffLine => ({ type: "added", text });
+const removed = (text: string): DiffLine => ({ type: "removed", text });
+
+// The after text is always the unchanged and added lines, the before text the unchanged and removed ones
+function assertReconstructs(lines: DiffLine[], before: string, after: string) {
+  assert.equal(lines.filter(line => line.type !== "added").map(line => line.text).join("\n"), before);
+  assert.equal(lines.filter(line => line.type !== "removed").map(line => line.text).join("\n"), after);
+}
+
+test("identical texts are entirely unchanged", () => {
+  assert.deepEqual(diffLines("a\nb\nc", "a\nb\nc"), [unchanged("a"), unchanged("b"), unchanged("c")]);
+});
+
+test("empty texts diff as a single empty line", () => {
+  assert.deepEqual(diffLines("", ""), [unchanged("")]);
+  assert.deepEqual(diffLines("", "a\nb"), [removed(""), added("a"), added("b")]);
+  assert.deepEqual(diffLines("a\nb", ""), [removed("a"), removed("b"), added("")]);
+});
+
+test("single-line texts are replaced or kept whole", () => {
+  assert.deepEqual(diffLines("a", "b"), [removed("a"), added("b")]);
+  assert.deepEqual(diffLines("a", "x\na\ny"), [added("x"), unchanged("a"), added("y")]);
+  assert.deepEqual(diffLines("x\na\ny", "a"), [removed("x"), unchanged("a"), removed("y")]);
+});
+
+test("a shared prefix and suffix stay in place around the changed middle", () => {
+  assert.deepEqual(diffLines("a\nb\nc\nd", "a\nx\ny\nd"), [
+    unchanged("a"),
+    removed("b"),
+    removed("c"),
+    added("x"),
+    added("y"),
+    unchanged("d")
+  ]);
+  assert.deepEqual(diffLines("a\nb", "a\nb\nc"), [unchanged("a"), unchanged("b"), added("c")]);
+  assert.deepEqual(diffLines("b\nc", "a\nb\nc"), [added("a"), unchanged("b"), unchanged("c")]);
+});
+
+test("keeps the longest run of common lines in the middle", () => {
+  const before = "1\na\nb\nc\nd\n2";
+  const after = "3\nb\nx\nc\nd\n4";
+  const lines = diffLines(before, after);
+  
+  assertReconstructs(lines, before, after);
+  assert.deepEqual(lines.filter(line => line.type === "unchanged").map(line => line.text), ["b", "c", "d"]);
+});
+
+test("refuses texts longer than the line cap", () => {
+  const atCap = Array(MAX_DIFF_LINES).fill("line").join("\n");
+  const overCap = `${atCap}\nline`;
+  
+  assert.equal(isDiffTooLarge(atCap, atCap), false);
+  assert.equal(isDiffTooLarge(overCap, "short"), true);
+  assert.equal(isDiffTooLarge("short", overCap), true);
+});
@@ -0,0 +1,83 @@
+import type { DiffLine } from "@shared/schema";
+
+// Comparing revisions takes time proportional to the product of their line counts,
+// so larger revisions are refused rather than tying up the server
+export const MAX_DIFF_LINES = 5000;
+
+function countLines(text: string): number {
+  let lines = 1;
+  for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) lines++;
+  return lines;
+}
+
+export function isDiffTooLarge(before: string, after: string): boolean {
+  return countLines(before) > MAX_DIFF_LINES || countLines(after) > MAX_DIFF_LINES;
+}
+
+// LCS lengths of a against every prefix of b, keeping only two rows in memory
+function lcsLengths(a: string[], b: string[]): Int32Array {
+  let prev = new Int32Array(b.length + 1);
+  let cur = new Int32Array(b.length + 1);
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      cur[j + 1] = a[i] === b[j] ? prev[j] + 1 : Math.max(prev[j + 1], cur[j]);
+    }
+    [prev, cur] = [cur, prev];
+  }
+  return prev;
+}
+
+// Hirschberg's algorithm: split a in half and find where b splits so the two halves'
+// LCS lengths add up to the maximum, then diff each half. Uses linear space.
+function diffRange(a: string[], b: string[], lines: DiffLine[]) {
+  if (a.length === 0) {
+    for (const text of b) lines.push({ type: "added", text });
+    return;
+  }
+  if (b.length === 0) {
+    for (const text of a) lines.push({ type: "removed", text });
+    return;
+  }
+  if (a.length === 1) {
+    const match = b.indexOf(a[0]);
+    if (match === -1) {
+      lines.push({ type: "removed", text: a[0] });
+      for (const text of b) lines.push({ type: "added", text });
+      return;
+    }
+    for (const text of b.slice(0, match)) lines.push({ type: "added", text });
+    lines.push({ type: "unchanged", text: a[0] });
+    for (const text of b.slice(match + 1)) lines.push({ type: "added", text });
+    return;
+  }
+
+  const mid = Math.floor(a.length / 2);
+  const head = lcsLengths(a.slice(0, mid), b);
+  const tail = lcsLengths(a.slice(mid).reverse(), b.slice().reverse());
+
+  let split = 0;
+  for (let j = 1; j <= b.length; j++) {
+    if (head[j] + tail[b.length - j] > head[split] + tail[b.length - split]) split = j;
+  }
+
+  diffRange(a.slice(0, mid), b.slice(0, split), lines);
+  diffRange(a.slice(mid), b.slice(split), lines);
+}
+
+// Line-based diff using the longest common subsequence of the two texts' lines
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // Unchanged lines at either end need no comparison
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const lines: DiffLine[] = a.slice(0, start).map(text => ({ type: "unchanged", text }));
+  diffRange(a.slice(start, a.length - end), b.slice(start, b.length - end), lines);
+  for (const text of a.slice(a.length - end)) lines.push({ type: "unchanged", text });
+
+  return lines;
+}
@@ -0,0 +1,121 @@
+import type { PostWithDetails } from "@shared/schema";
+
+export type FeedFormat = "rss" | "atom";
+
+export interface Feed {
+  title: string;
+  description: string;
+  // Absolute URLs of the page the feed mirrors and of the feed document itself
+  link: string;
+  selfUrl: string;
+  // Origin that post links and relative URLs in post bodies are resolved against
+  origin: string;
+  posts: PostWithDetails[];
+}
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8"
+};
+
+// Characters XML 1.0 does not allow anywhere in a document, even escaped
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Feed readers show the body outside the site, so root-relative links and images need the origin
+function absolutizeUrls(html: string, origin: string): string {
+  return html.replace(/(\s(?:href|src)=")\/(?!\/)/g, `$1${origin}/`);
+}
+
+function postUrl(feed: Feed, post: PostWithDetails): string {
+  return new URL(`/post/${post.id}`, feed.origin).toString();
+}
+
+// The most recent change to any post in the feed, or undefined for an empty feed
+export function feedUpdatedAt(feed: Feed): Date | undefined {
+  if (feed.posts.length === 0) return undefined;
+  return new Date(Math.max(...feed.posts.map(post => new Date(post.updatedAt).getTime())));
+}
+
+export function renderRssFeed(feed: Feed): string {
+  const updatedAt = feedUpdatedAt(feed);
+
+  const items = feed.posts.map(post => {
+    const url = postUrl(feed, post);
+    return [
+      "    <item>",
+      `      <title>${escapeXml(post.title)}</title>`,
+      `      <link>${escapeXml(url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(url)}</guid>`,
+      `      <dc:creator>${escapeXml(post.author.name)}</dc:creator>`,
+      `      <pubDate>${new Date(post.createdAt).toUTCString()}</pubDate>`,
+      ...post.tags.map(tag => `      <category>${escapeXml(tag)}</category>`),
+      `      <description>${escapeXml(post.excerpt ?? post.body)}</description>`,
+      ...(post.bodyHtml ? [`      <content:encoded>${escapeXml(absolutizeUrls(post.bodyHtml, feed.origin))}</content:encoded>`] : []),
+      "    </item>"
+    ].join("\n");
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">`,
+    "  <channel>",
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.link)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <atom:link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+    ...(updatedAt ? [`    <lastBuildDate>${updatedAt.toUTCString()}</lastBuildDate>`] : []),
+    ...items,
+    "  </channel>",
+    "</rss>",
+    ""
+  ].join("\n");
+}
+
+export function renderAtomFeed(feed: Feed): string {
+  // Atom requires an updated date even for an empty feed
+  const updatedAt = feedUpdatedAt(feed) ?? new Date(0);
+
+  const entries = feed.posts.map(post => {
+    const url = postUrl(feed, post);
+    return [
+      "  <entry>",
+      `    <title>${escapeXml(post.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(url)}"/>`,
+      `    <id>${escapeXml(url)}</id>`,
+      `    <published>${new Date(post.createdAt).toISOString()}</published>`,
+      `    <updated>${new Date(post.updatedAt).toISOString()}</updated>`,
+      "    <author>",
+      `      <name>${escapeXml(post.author.name)}</name>`,
+      `      <uri>${escapeXml(new URL(`/users/${post.author.id}`, feed.origin).toString())}</uri>`,
+      "    </author>",
+      ...post.tags.map(tag => `    <category term="${escapeXml(tag)}"/>`),
+      `    <summary>${escapeXml(post.excerpt ?? post.body)}</summary>`,
+      ...(post.bodyHtml ? [`    <content type="html">${escapeXml(absolutizeUrls(post.bodyHtml, feed.origin))}</content>`] : []),
+      "  </entry>"
+    ].join("\n");
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom">`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.link)}"/>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.selfUrl)}"/>`,
+    `  <id>${escapeXml(feed.selfUrl)}</id>`,
+    `  <updated>${updatedAt.toISOString()}</updated>`,
+    ...entries,
+    "</feed>",
+    ""
+  ].join("\n");
+}
@@ -0,0 +1,43 @@
+import fs from "fs";
+import path from "path";
+import type { Readable } from "stream";
+
+// Where uploaded file contents live; attachment metadata stays in the database.
+// Keys are opaque, so an S3-compatible backend can implement the same interface.
+export interface FileStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  createReadStream(key: string): Readable;
+  delete(key: string): Promise<void>;
+}
+
+// Stores files under a local directory, one file per key
+export class LocalFileStorage implements FileStorage {
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    // Keys are generated by the server, but never let one escape the upload directory
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  createReadStream(key: string): Readable {
+    return fs.createReadStream(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+export const fileStorage: FileStorage = new LocalFileStorage(
+  process.env.UPLOAD_DIR || path.resolve(process.cwd(), "uploads")
+);
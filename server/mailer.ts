@@ -0,0 +1,61 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Sends transactional email; production deployments can plug in an SMTP or API-backed implementation
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "Blog <no-reply@localhost>";
+
+// Line breaks in a header value would start new headers, so subjects are folded onto one line
+// and recipients containing them are refused outright
+function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+// Format a message as a minimal RFC 822 email
+function formatMessage(message: MailMessage): string {
+  if (/[\r\n]/.test(message.to)) {
+    throw new Error("Mail recipient must not contain line breaks");
+  }
+
+  return [
+    `From: ${singleLine(MAIL_FROM)}`,
+    `To: ${message.to}`,
+    `Subject: ${singleLine(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    message.text
+  ].join("\n");
+}
+
+// Prints messages to the server log, for local development
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mailer] ${formatMessage(message)}\n`);
+  }
+}
+
+// Writes each message as an .eml file into a directory, for local development and manual testing
+export class FileMailer implements Mailer {
+  constructor(private readonly dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const filename = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.eml`;
+    await fs.promises.writeFile(path.join(this.dir, filename), formatMessage(message));
+  }
+}
+
+export const mailer: Mailer = process.env.MAIL_DIR
+  ? new FileMailer(process.env.MAIL_DIR)
+  : new ConsoleMailer();
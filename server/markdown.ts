@@ -0,0 +1,69 @@
+import { Marked } from "marked";
+import { markedHighlight } from "marked-highlight";
+import hljs from "highlight.js";
+import sanitizeHtml from "sanitize-html";
+
+// Fenced code blocks are highlighted at render time so clients only need a highlight.js theme
+const marked = new Marked(
+  { gfm: true, breaks: true },
+  markedHighlight({
+    emptyLangClass: "hljs",
+    langPrefix: "hljs language-",
+    highlight(code, lang) {
+      const language = hljs.getLanguage(lang) ? lang : "plaintext";
+      return hljs.highlight(code, { language }).value;
+    }
+  })
+);
+
+// Everything not listed here, including raw HTML written into the Markdown, is stripped
+const sanitizeOptions: sanitizeHtml.IOptions = {
+  allowedTags: [
+    "h1", "h2", "h3", "h4", "h5", "h6", "p", "br", "hr",
+    "ul", "ol", "li", "blockquote", "pre", "code", "span",
+    "strong", "em", "del", "a", "img",
+    "table", "thead", "tbody", "tr", "th", "td"
+  ],
+  allowedAttributes: {
+    a: ["href", "title", "rel", "target"],
+    img: ["src", "alt", "title"],
+    ol: ["start"],
+    th: ["align"],
+    td: ["align"]
+  },
+  allowedClasses: {
+    code: ["hljs", "language-*"],
+    span: ["hljs-*", "language-*"]
+  },
+  allowedSchemes: ["http", "https", "mailto"],
+  transformTags: {
+    a: sanitizeHtml.simpleTransform("a", { rel: "nofollow noopener noreferrer", target: "_blank" })
+  },
+  // Images may only point at uploaded attachments, never at third-party hosts
+  exclusiveFilter: (frame) => frame.tag === "img" && !frame.attribs.src?.startsWith("/api/attachments/")
+};
+
+// Render a Markdown body to sanitized HTML
+export function renderMarkdown(body: string): string {
+  const html = marked.parse(body, { async: false }) as string;
+  return sanitizeHtml(html, sanitizeOptions);
+}
+
+// Plain-text excerpt of a Markdown body for list views, cut at a word boundary
+export function markdownExcerpt(body: string, maxLength = 280): string {
+  const html = marked.parse(body, { async: false }) as string;
+  const text = sanitizeHtml(html, { allowedTags: [], allowedAttributes: {} })
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (text.length <= maxLength) return text;
+
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
@@ -1,73 +1,209 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
-import { JWT_SECRET } from "../auth";
+import { JWT_SECRET, hashToken } from "../auth";
 import { storage } from "../storage";
+import type { UserRole } from "@shared/schema";
 
 interface JwtPayload {
   id: number;
   email: string;
   name: string;
+  role: UserRole;
+  fam?: string;
 }
 
-export const authenticateJWT = async (req: Request, res: Response, next: NextFunction) => {
+// Roles allowed to edit or delete content written by anyone
+const MODERATOR_ROLES: UserRole[] = ["moderator", "admin"];
+
+// When enabled, users must verify their email address before publishing content
+const REQUIRE_EMAIL_VERIFICATION = process.env.REQUIRE_EMAIL_VERIFICATION === "true";
+
+// Methods a read-scoped API key may use
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// Only record an API key's last use once a minute, so busy scripts don't write on every request
+const API_KEY_TOUCH_INTERVAL_MS = 60 * 1000;
+
+type AuthFailure = { status: 401 | 403; message: string };
+
+// Resolve an "Authorization: ApiKey <key>" header to its owner and enforce the key's scope
+async function authenticateApiKey(key: string, req: Request): Promise<AuthFailure | undefined> {
+  const apiKey = await storage.getApiKeyByHash(hashToken(key));
+  const user = apiKey && await storage.getUser(apiKey.userId);
+  if (!apiKey || !user) {
+    return { status: 401, message: "Invalid or revoked API key" };
+  }
+
+  if (apiKey.scope === "read" && !SAFE_METHODS.includes(req.method)) {
+    return { status: 403, message: "This API key is read-only" };
+  }
+
+  const now = new Date();
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= API_KEY_TOUCH_INTERVAL_MS) {
+    await storage.touchApiKey(apiKey.id, now);
+  }
+
+  req.user = user;
+  req.apiKey = apiKey;
+}
+
+// Populate req.user from the session cookie, a bearer token or a personal API key, or say why not
+async function resolveCredentials(req: Request): Promise<AuthFailure | undefined> {
+  // Session authentication
+  if (req.isAuthenticated() && req.user) {
+    return;
+  }
+
+  // Otherwise fall back to a token in the Authorization header
+  const authHeader = req.headers.authorization;
+  if (!authHeader) {
+    return { status: 401, message: "Authentication required" };
+  }
+
+  const [scheme, token] = authHeader.split(" ");
+  if (!token) {
+    return { status: 401, message: "Authentication token required" };
+  }
+
+  if (scheme === "ApiKey") {
+    return authenticateApiKey(token, req);
+  }
+
+  let decoded: JwtPayload;
   try {
-    // Check for token in Authorization header
-    const authHeader = req.headers.authorization;
-    if (!authHeader) {
-      return res.status(401).json({
+    decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
+  } catch (error) {
+    return { status: 401, message: "Invalid or expired token" };
+  }
+
+  // Reject tokens whose family was revoked by logout or refresh token reuse
+  if (decoded.fam && await storage.isTokenFamilyRevoked(decoded.fam)) {
+    return { status: 401, message: "Token has been revoked" };
+  }
+
+  // Fetch the user
+  const user = await storage.getUser(decoded.id);
+  if (!user) {
+    return { status: 401, message: "User not found" };
+  }
+
+  // Attach user to request
+  req.user = user;
+}
+
+// Authenticate with the passport session cookie, a bearer token or a personal API key; all populate req.user
+export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const failure = await resolveCredentials(req);
+    if (failure) {
+      return res.status(failure.status).json({
         status: "error",
         error: {
-          message: "Authentication required"
+          message: failure.message
         }
       });
     }
 
-    const token = authHeader.split(" ")[1];
-    if (!token) {
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Populate req.user when valid credentials are supplied and carry on regardless, so middleware such as
+// rate limiters can tell users apart; routes still reject bad credentials through authenticate
+export const identify = async (req: Request, res: Response, next: NextFunction) => {
+  if (req.user || !req.headers.authorization) {
+    return next();
+  }
+
+  try {
+    await resolveCredentials(req);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Populate req.user when credentials are supplied, but let anonymous requests through
+export const optionalAuthenticate = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.isAuthenticated() && !req.headers.authorization) {
+    return next();
+  }
+  return authenticate(req, res, next);
+};
+
+// Middleware to refuse API key authentication, for account management that needs a real login; use after authenticate
+export const rejectApiKey = (req: Request, res: Response, next: NextFunction) => {
+  if (req.apiKey) {
+    return res.status(403).json({
+      status: "error",
+      error: {
+        message: "API keys cannot be used for this action"
+      }
+    });
+  }
+
+  next();
+};
+
+// Middleware to require one of the given roles; use after authenticate
+export const requireRole = (...roles: UserRole[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
       return res.status(401).json({
         status: "error",
         error: {
-          message: "Authentication token required"
+          message: "Not authenticated"
         }
       });
     }
 
-    try {
-      // Verify token
-      const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
-      
-      // Fetch the user
-      const user = await storage.getUser(decoded.id);
-      if (!user) {
-        return res.status(401).json({
-          status: "error",
-          error: {
-            message: "User not found"
-          }
-        });
-      }
-      
-      // Attach user to request
-      req.user = user;
-      next();
-    } catch (error) {
-      return res.status(401).json({
+    if (!roles.includes(req.user.role)) {
+      return res.status(403).json({
         status: "error",
         error: {
-          message: "Invalid or expired token"
+          message: "You do not have permission to perform this action"
         }
       });
     }
-  } catch (error) {
-    next(error);
+
+    next();
+  };
+};
+
+// Middleware to block unverified users when the email verification policy is enabled
+export const requireVerifiedEmail = (req: Request, res: Response, next: NextFunction) => {
+  if (!REQUIRE_EMAIL_VERIFICATION) {
+    return next();
   }
+
+  if (!req.user) {
+    return res.status(401).json({
+      status: "error",
+      error: {
+        message: "Not authenticated"
+      }
+    });
+  }
+
+  if (!req.user.emailVerifiedAt) {
+    return res.status(403).json({
+      status: "error",
+      error: {
+        message: "Please verify your email address first"
+      }
+    });
+  }
+
+  next();
 };
 
-// Middleware to check if the user is the author
+// Middleware to check if the user is the author, or a moderator who may act on anyone's content
 export const isAuthor = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const resourceId = parseInt(req.params.id);
-    const resourceType = req.baseUrl.includes('posts') ? 'post' : 'comment';
+    const resourceType = req.path.startsWith('/api/posts') ? 'post' : 'comment';
 
     if (!req.user) {
       return res.status(401).json({
@@ -80,8 +216,11 @@ export const isAuthor = async (req: Request, res: Response, next: NextFunction)
 
     let isOwner = false;
 
+    // Trashed and unpublished resources still belong to their author
+    const lookupOptions = { includeDeleted: true, includeUnpublished: true };
+
     if (resourceType === 'post') {
-      const post = await storage.getPost(resourceId);
+      const post = await storage.getPost(resourceId, lookupOptions);
       if (!post) {
         return res.status(404).json({
           status: "error",
@@ -92,7 +231,7 @@ export const isAuthor = async (req: Request, res: Response, next: NextFunction)
       }
       isOwner = post.author.id === req.user.id;
     } else {
-      const comment = await storage.getComment(resourceId);
+      const comment = await storage.getComment(resourceId, lookupOptions);
       if (!comment) {
         return res.status(404).json({
           status: "error",
@@ -104,7 +243,7 @@ export const isAuthor = async (req: Request, res: Response, next: NextFunction)
       isOwner = comment.authorId === req.user.id;
     }
 
-    if (!isOwner) {
+    if (!isOwner && !MODERATOR_ROLES.includes(req.user.role)) {
       return res.status(403).json({
         status: "error",
         error: {
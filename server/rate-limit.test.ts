@@ -0,0 +1,134 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Request, Response } from "express";
+import { MemoryRateLimitStore, rateLimit, userOrIp } from "./rate-limit";
+
+function fakeClock(start = 1_000_000) {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms: number) => { time += ms; }
+  };
+}
+
+// Just enough of Express's request and response for the middleware
+function fakeRequest(ip: string, userId?: number): Request {
+  return { ip, user: userId === undefined ? undefined : { id: userId } } as unknown as Request;
+}
+
+function fakeResponse() {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as unknown,
+    set(field: string | Record<string, string>, value?: string) {
+      Object.assign(res.headers, typeof field === "string" ? { [field]: value } : field);
+      return res;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    }
+  };
+  return res;
+}
+
+async function send(middleware: ReturnType<typeof rateLimit>, req: Request) {
+  const res = fakeResponse();
+  let passed = false;
+  await middleware(req, res as unknown as Response, () => { passed = true; });
+  return { res, passed };
+}
+
+test("the sliding window refills as old hits leave it", async () => {
+  const clock = fakeClock();
+  const store = new MemoryRateLimitStore({ now: clock.now });
+  const limiter = rateLimit({ name: "test", limit: 2, windowMs: 60_000, key: userOrIp, store });
+  const req = fakeRequest("10.0.0.1");
+  
+  assert.equal((await send(limiter, req)).passed, true);
+  clock.advance(30_000);
+  assert.equal((await send(limiter, req)).passed, true);
+  assert.equal((await send(limiter, req)).passed, false);
+  
+  // The first hit leaves the window, freeing one slot but not two
+  clock.advance(30_001);
+  assert.equal((await send(limiter, req)).passed, true);
+  assert.equal((await send(limiter, req)).passed, false);
+});
+
+test("rejected requests do not extend the window", async () => {
+  const clock = fakeClock();
+  const store = new MemoryRateLimitStore({ now: clock.now });
+  const limiter = rateLimit({ name: "test", limit: 1, windowMs: 60_000, key: userOrIp, store });
+  const req = fakeRequest("10.0.0.1");
+  
+  await send(limiter, req);
+  for (let i = 0; i < 5; i++) {
+    clock.advance(10_000);
+    await send(limiter, req);
+  }
+  
+  clock.advance(10_001);
+  assert.equal((await send(limiter, req)).passed, true);
+});
+
+test("a lock expires after its duration", async () => {
+  const clock = fakeClock();
+  const store = new MemoryRateLimitStore({ now: clock.now });
+  
+  await store.lock("login:alice", 15 * 60_000);
+  assert.equal(await store.lockedFor("login:alice"), 15 * 60_000);
+  
+  clock.advance(15 * 60_000 - 1);
+  assert.equal(await store.lockedFor("login:alice"), 1);
+  
+  clock.advance(1);
+  assert.equal(await store.lockedFor("login:alice"), undefined);
+});
+
+test("RateLimit-* headers report the budget and 429 responses carry Retry-After", async () => {
+  const clock = fakeClock();
+  const store = new MemoryRateLimitStore({ now: clock.now });
+  const limiter = rateLimit({ name: "test", limit: 2, windowMs: 60_000, key: userOrIp, headers: true, store });
+  const req = fakeRequest("10.0.0.1");
+  
+  const first = await send(limiter, req);
+  assert.deepEqual(first.res.headers, {
+    "RateLimit-Policy": "2;w=60",
+    "RateLimit-Limit": "2",
+    "RateLimit-Remaining": "1",
+    "RateLimit-Reset": "60"
+  });
+  
+  clock.advance(20_000);
+  await send(limiter, req);
+  
+  clock.advance(500);
+  const rejected = await send(limiter, req);
+  assert.equal(rejected.passed, false);
+  assert.equal(rejected.res.statusCode, 429);
+  assert.equal(rejected.res.headers["RateLimit-Remaining"], "0");
+  // The oldest hit leaves the window 39.5 seconds from now, rounded up
+  assert.equal(rejected.res.headers["RateLimit-Reset"], "40");
+  assert.equal(rejected.res.headers["Retry-After"], "40");
+});
+
+test("signed-in users are limited per account and anonymous requests per IP", async () => {
+  const store = new MemoryRateLimitStore({ now: fakeClock().now });
+  const limiter = rateLimit({ name: "test", limit: 1, windowMs: 60_000, key: userOrIp, store });
+  
+  assert.equal((await send(limiter, fakeRequest("10.0.0.1", 1))).passed, true);
+  // Same account from another IP shares the budget
+  assert.equal((await send(limiter, fakeRequest("10.0.0.2", 1))).passed, false);
+  // Another account behind the same IP has its own
+  assert.equal((await send(limiter, fakeRequest("10.0.0.1", 2))).passed, true);
+  // Anonymous requests are counted by IP, separately from the accounts using it
+  assert.equal((await send(limiter, fakeRequest("10.0.0.1"))).passed, true);
+  assert.equal((await send(limiter, fakeRequest("10.0.0.1"))).passed, false);
+  assert.equal((await send(limiter, fakeRequest("10.0.0.3"))).passed, true);
+});
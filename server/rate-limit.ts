@@ -0,0 +1,156 @@
+import type { Request, Response, NextFunction } from "express";
+
+export interface RateLimitResult {
+  // Hits recorded within the window
+  count: number;
+  // Milliseconds until the oldest of those hits leaves the window
+  resetMs: number;
+}
+
+// Keeps sliding-window hit counts and temporary locks. The in-memory store is per process;
+// a shared backend such as Redis can implement the same interface for multi-instance deployments.
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitResult>;
+  peek(key: string, windowMs: number): Promise<RateLimitResult>;
+  reset(key: string): Promise<void>;
+  lock(key: string, durationMs: number): Promise<void>;
+  // Milliseconds left on a lock, if the key is locked
+  lockedFor(key: string): Promise<number | undefined>;
+}
+
+interface MemoryRateLimitStoreOptions {
+  // Clock in milliseconds; tests can pass a fake one to step through windows
+  now?: () => number;
+  sweepIntervalMs?: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, { timestamps: number[]; expiresAt: number }>();
+  private locks = new Map<string, number>();
+  private readonly now: () => number;
+
+  constructor({ now = Date.now, sweepIntervalMs = 60 * 1000 }: MemoryRateLimitStoreOptions = {}) {
+    this.now = now;
+    // Drop keys that haven't been hit for a whole window so idle clients don't pile up
+    setInterval(() => this.sweep(), sweepIntervalMs).unref();
+  }
+
+  private sweep(): void {
+    const now = this.now();
+    for (const [key, entry] of Array.from(this.hits.entries())) {
+      if (entry.expiresAt <= now) this.hits.delete(key);
+    }
+    for (const [key, until] of Array.from(this.locks.entries())) {
+      if (until <= now) this.locks.delete(key);
+    }
+  }
+
+  private window(key: string, windowMs: number, now: number): number[] {
+    return (this.hits.get(key)?.timestamps ?? []).filter(time => time > now - windowMs);
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitResult> {
+    const now = this.now();
+    const timestamps = [...this.window(key, windowMs, now), now];
+    this.hits.set(key, { timestamps, expiresAt: now + windowMs });
+    return { count: timestamps.length, resetMs: timestamps[0] + windowMs - now };
+  }
+
+  async peek(key: string, windowMs: number): Promise<RateLimitResult> {
+    const now = this.now();
+    const timestamps = this.window(key, windowMs, now);
+    return { count: timestamps.length, resetMs: (timestamps[0] ?? now) + windowMs - now };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+
+  async lock(key: string, durationMs: number): Promise<void> {
+    this.locks.set(key, this.now() + durationMs);
+  }
+
+  async lockedFor(key: string): Promise<number | undefined> {
+    const until = this.locks.get(key);
+    const now = this.now();
+    return until !== undefined && until > now ? until - now : undefined;
+  }
+}
+
+export const rateLimitStore: RateLimitStore = new MemoryRateLimitStore();
+
+// Whole seconds for a header value, never less than one
+function toSeconds(ms: number): number {
+  return Math.max(1, Math.ceil(ms / 1000));
+}
+
+// Reply with 429 and a Retry-After header in seconds
+export function sendTooManyRequests(res: Response, retryAfterMs: number, message = "Too many requests, please try again later") {
+  res.set("Retry-After", String(toSeconds(retryAfterMs)));
+  return res.status(429).json({
+    status: "error",
+    error: {
+      message
+    }
+  });
+}
+
+export interface RateLimitBudget {
+  limit: number;
+  windowMs: number;
+}
+
+// A budget that can be overridden with an environment variable of the form "<limit>/<window seconds>"
+export function budgetFromEnv(variable: string, fallback: RateLimitBudget): RateLimitBudget {
+  const match = process.env[variable]?.match(/^(\d+)\/(\d+)$/);
+  if (!match) return fallback;
+  return { limit: parseInt(match[1]), windowMs: parseInt(match[2]) * 1000 };
+}
+
+// Signed-in users are limited per account, anonymous requests per IP
+export function userOrIp(req: Request): string | undefined {
+  return req.user ? `user:${req.user.id}` : req.ip && `ip:${req.ip}`;
+}
+
+interface RateLimitOptions extends RateLimitBudget {
+  // Namespaces the keys so limiters don't share counters
+  name: string;
+  // Requests without a key are not limited by this limiter
+  key: (req: Request) => string | undefined;
+  // Report the budget in RateLimit-* headers; a later limiter on the same route overwrites them,
+  // so the most specific budget is the one reported
+  headers?: boolean;
+  store?: RateLimitStore;
+}
+
+// Sliding-window rate limiting middleware; every accepted request counts, successful or not
+export function rateLimit({ name, limit, windowMs, key, headers = false, store = rateLimitStore }: RateLimitOptions) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const value = key(req);
+      if (!value) return next();
+
+      // Rejected requests aren't recorded, so a flood can't push the window further out
+      const current = await store.peek(`${name}:${value}`, windowMs);
+      const allowed = current.count < limit;
+      const result = allowed ? await store.hit(`${name}:${value}`, windowMs) : current;
+
+      if (headers) {
+        res.set({
+          "RateLimit-Policy": `${limit};w=${Math.round(windowMs / 1000)}`,
+          "RateLimit-Limit": String(limit),
+          "RateLimit-Remaining": String(Math.max(0, limit - result.count)),
+          "RateLimit-Reset": String(toSeconds(result.resetMs))
+        });
+      }
+
+      if (!allowed) {
+        return sendTooManyRequests(res, result.resetMs);
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,125 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { z } from "zod";
+import { REALTIME_CHANNEL_PATTERN, type Post, type Comment, type RealtimeEvent, type RealtimeServerMessage } from "@shared/schema";
+
+const REALTIME_PATH = "/ws";
+
+// Connections that don't answer a ping within one interval are dropped
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+const MAX_CHANNELS_PER_CONNECTION = 50;
+const MAX_MESSAGE_BYTES = 4 * 1024;
+
+const clientMessageSchema = z.object({
+  type: z.enum(["subscribe", "unsubscribe"]),
+  channel: z.string().regex(REALTIME_CHANNEL_PATTERN, "Unknown channel"),
+});
+
+// Sockets subscribed to each channel
+const channels = new Map<string, Set<WebSocket>>();
+
+function send(socket: WebSocket, message: RealtimeServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function leave(socket: WebSocket, channel: string) {
+  const sockets = channels.get(channel);
+  sockets?.delete(socket);
+  if (sockets?.size === 0) channels.delete(channel);
+}
+
+function publish(channel: string, event: RealtimeEvent, data: { postId: number; commentId?: number }) {
+  const sockets = channels.get(channel);
+  if (!sockets) return;
+
+  for (const socket of Array.from(sockets)) {
+    send(socket, { type: "event", channel, event, data });
+  }
+}
+
+// Post events go to the post list and to the post's own channel. New drafts and scheduled
+// posts aren't announced, but updates and deletes always are since the post may just have
+// been unpublished.
+export function broadcastPostEvent(event: "post.created" | "post.updated" | "post.deleted", post: Pick<Post, "id" | "status">) {
+  if (event === "post.created" && post.status !== "published") return;
+
+  publish("posts", event, { postId: post.id });
+  publish(`post:${post.id}`, event, { postId: post.id });
+}
+
+export function broadcastCommentEvent(event: "comment.created" | "comment.updated" | "comment.deleted", comment: Pick<Comment, "id" | "postId">) {
+  publish(`post:${comment.postId}`, event, { postId: comment.postId, commentId: comment.id });
+}
+
+// Accept WebSocket connections on /ws of the HTTP server that serves the API
+export function setupRealtime(httpServer: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+  const alive = new WeakSet<WebSocket>();
+
+  // Only claim upgrades for our path, leaving others (such as Vite's HMR socket) alone
+  httpServer.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== REALTIME_PATH) return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  });
+
+  wss.on("connection", (socket: WebSocket) => {
+    const subscriptions = new Set<string>();
+    alive.add(socket);
+
+    socket.on("pong", () => alive.add(socket));
+
+    socket.on("message", (raw) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw.toString());
+      } catch {
+        return send(socket, { type: "error", message: "Messages must be JSON" });
+      }
+
+      const result = clientMessageSchema.safeParse(parsed);
+      if (!result.success) {
+        return send(socket, { type: "error", message: result.error.errors[0]?.message ?? "Invalid message" });
+      }
+
+      const { type, channel } = result.data;
+      if (type === "subscribe") {
+        if (!subscriptions.has(channel) && subscriptions.size >= MAX_CHANNELS_PER_CONNECTION) {
+          return send(socket, { type: "error", message: `At most ${MAX_CHANNELS_PER_CONNECTION} channels per connection` });
+        }
+        subscriptions.add(channel);
+        if (!channels.has(channel)) channels.set(channel, new Set());
+        channels.get(channel)!.add(socket);
+      } else {
+        subscriptions.delete(channel);
+        leave(socket, channel);
+      }
+    });
+
+    socket.on("close", () => {
+      for (const channel of Array.from(subscriptions)) {
+        leave(socket, channel);
+      }
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const socket of Array.from(wss.clients)) {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        continue;
+      }
+      alive.delete(socket);
+      socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  wss.on("close", () => clearInterval(heartbeat));
+
+  return wss;
+}
@@ -1,13 +1,132 @@
-import type { Express, Request, Response } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
+import { createHash, randomUUID } from "crypto";
+import multer from "multer";
 import { z } from "zod";
 import { storage } from "./storage";
-import { setupAuth } from "./auth";
-import { authenticateJWT, isAuthor } from "./middleware/authMiddleware";
-import { setupScheduler } from "./scheduler";
-import { insertPostSchema, insertCommentSchema } from "@shared/schema";
+import { encodeCursor, decodeCursor } from "./cursor";
+import { setupSession, setupAuth, appUrl, verifyPostExtensionToken } from "./auth";
+import { authenticate, identify, optionalAuthenticate, isAuthor, requireRole, requireVerifiedEmail } from "./middleware/authMiddleware";
+import { setupScheduler, EXPIRY_WARNING_HOURS } from "./scheduler";
+import { diffLines, isDiffTooLarge, MAX_DIFF_LINES } from "./diff";
+import { renderMarkdown } from "./markdown";
+import { fileStorage } from "./file-storage";
+import { rateLimit, budgetFromEnv, userOrIp } from "./rate-limit";
+import { emitWebhookEvent, generateWebhookSecret } from "./webhooks";
+import { setupRealtime, broadcastPostEvent, broadcastCommentEvent } from "./realtime";
+import { renderRssFeed, renderAtomFeed, feedUpdatedAt, FEED_CONTENT_TYPES, type Feed } from "./feeds";
+import { insertPostSchema, insertCommentSchema, postQuerySchema, extendPostSchema, updateUserRoleSchema, webhookSchema, notificationQuerySchema, markNotificationsReadSchema, revisionDiffQuerySchema, markdownPreviewSchema, MAX_COMMENT_DEPTH, MAX_ATTACHMENT_BYTES, ALLOWED_ATTACHMENT_TYPES, type PostStatus, type PostWithDetails, type Webhook, type PublicWebhook } from "@shared/schema";
+
+// Scheduled posts need a publish time that is still ahead
+function publishStateError(status: PostStatus, publishAt: Date | null | undefined): string | undefined {
+  if (status === "scheduled" && (!publishAt || publishAt <= new Date())) {
+    return "Scheduled posts require a publishAt time in the future";
+  }
+}
+
+// Drafts and scheduled posts are only visible to their author
+async function getVisiblePost(id: number, req: Request) {
+  const post = await storage.getPost(id, { includeUnpublished: true });
+  if (!post || (post.status !== "published" && post.author.id !== req.user?.id)) return undefined;
+  return post;
+}
+
+// Webhook subscribers only hear about public posts: a post is announced as created when it goes
+// live, updated while it stays live and deleted when it stops being public
+async function emitPostWebhook(wasPublished: boolean, post: PostWithDetails, stillExists = true) {
+  const isPublished = stillExists && post.status === "published";
+  
+  if (!wasPublished && isPublished) {
+    await emitWebhookEvent("post.created", { post });
+  } else if (wasPublished && isPublished) {
+    await emitWebhookEvent("post.updated", { post });
+  } else if (wasPublished) {
+    await emitWebhookEvent("post.deleted", { post });
+  }
+}
+
+function toPublicWebhook({ secret, ...webhook }: Webhook): PublicWebhook {
+  return webhook;
+}
+
+// Posts included in each syndication feed
+const FEED_SIZE = 50;
+const FEED_TITLE = process.env.FEED_TITLE || "Blog";
+
+// Render a feed as RSS 2.0 or Atom depending on the requested file. Express answers
+// conditional requests with 304 once ETag and Last-Modified are set.
+function sendFeed(req: Request, res: Response, feed: Omit<Feed, "origin" | "selfUrl">) {
+  const format = req.path.endsWith("/atom.xml") ? "atom" : "rss";
+  const fullFeed: Feed = { ...feed, origin: appUrl(req, "/").replace(/\/$/, ""), selfUrl: appUrl(req, req.path) };
+  const xml = format === "atom" ? renderAtomFeed(fullFeed) : renderRssFeed(fullFeed);
+  
+  const updatedAt = feedUpdatedAt(fullFeed);
+  if (updatedAt) res.set("Last-Modified", updatedAt.toUTCString());
+  res.set({
+    "Content-Type": FEED_CONTENT_TYPES[format],
+    "Cache-Control": "public, max-age=300",
+    "ETag": `"${createHash("sha1").update(xml).digest("base64url")}"`
+  });
+  res.send(xml);
+}
+
+// Request budgets per route group, each overridable with RATE_LIMIT_<GROUP>="<limit>/<window seconds>"
+const apiLimit = rateLimit({
+  name: "api",
+  key: userOrIp,
+  headers: true,
+  ...budgetFromEnv("RATE_LIMIT_API", { limit: 300, windowMs: 60 * 1000 })
+});
+const postWriteLimit = rateLimit({
+  name: "post-writes",
+  key: userOrIp,
+  headers: true,
+  ...budgetFromEnv("RATE_LIMIT_POSTS", { limit: 30, windowMs: 60 * 60 * 1000 })
+});
+const commentWriteLimit = rateLimit({
+  name: "comment-writes",
+  key: userOrIp,
+  headers: true,
+  ...budgetFromEnv("RATE_LIMIT_COMMENTS", { limit: 60, windowMs: 60 * 60 * 1000 })
+});
+const uploadLimit = rateLimit({
+  name: "uploads",
+  key: userOrIp,
+  headers: true,
+  ...budgetFromEnv("RATE_LIMIT_UPLOADS", { limit: 30, windowMs: 60 * 60 * 1000 })
+});
+
+// Uploads are buffered in memory (bounded by the size limit) and handed to the file storage adapter
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 1 }
+});
+
+// Parse a single "file" field, reporting upload errors in the API's error format
+function uploadFile(req: Request, res: Response, next: NextFunction) {
+  upload.single("file")(req, res, (err) => {
+    if (err instanceof multer.MulterError) {
+      return res.status(err.code === "LIMIT_FILE_SIZE" ? 413 : 422).json({
+        status: "error",
+        error: {
+          message: err.code === "LIMIT_FILE_SIZE"
+            ? `Files can be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`
+            : err.message
+        }
+      });
+    }
+    next(err);
+  });
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions first, so the overall API budget below can count signed-in users per account
+  setupSession(app);
+
+  // Overall budget for every API route, auth routes included; bearer-token and API key
+  // clients are identified up front so they aren't pooled with everyone else on their IP
+  app.use("/api", identify, apiLimit);
+
   // Set up authentication routes and middleware
   setupAuth(app);
 
@@ -19,37 +138,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get all posts
   app.get("/api/posts", async (req, res, next) => {
     try {
-      const tagQuery = req.query.tag as string | undefined;
-      const authorIdQuery = req.query.author_id ? 
-        parseInt(req.query.author_id as string) : undefined;
+      const query = postQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: query.error.format()
+          }
+        });
+      }
+      
+      const { page, per_page: perPage } = query.data;
       
-      let posts;
-      if (tagQuery) {
-        posts = await storage.getPostsByTag(tagQuery);
-      } else if (authorIdQuery) {
-        posts = await storage.getPostsByAuthor(authorIdQuery);
-      } else {
-        posts = await storage.getAllPosts();
+      // Pagination by page number, or by cursor when one is supplied
+      const cursor = query.data.cursor ? decodeCursor(query.data.cursor) : undefined;
+      if (query.data.cursor && !cursor) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Invalid cursor"
+          }
+        });
       }
       
-      // Basic pagination
-      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
-      const perPage = Math.min(
-        Math.max(parseInt(req.query.per_page as string) || 20, 1), 
-        100
+      const result = await storage.queryPosts(
+        {
+          tags: query.data.tag,
+          tagMode: query.data.tag_mode,
+          authorId: query.data.author_id,
+          createdAfter: query.data.created_after,
+          createdBefore: query.data.created_before,
+          sort: query.data.sort
+        },
+        {
+          limit: perPage,
+          offset: (page - 1) * perPage,
+          cursor
+        }
       );
       
-      const start = (page - 1) * perPage;
-      const paginatedPosts = posts.slice(start, start + perPage);
-      
       res.json({
         status: "success",
         data: {
-          posts: paginatedPosts,
+          posts: result.posts,
           meta: {
             current_page: page,
-            total_pages: Math.ceil(posts.length / perPage),
-            total_count: posts.length
+            total_pages: Math.ceil(result.totalCount / perPage),
+            total_count: result.totalCount,
+            next_cursor: result.nextCursor ? encodeCursor(result.nextCursor) : null
           }
         }
       });
@@ -59,7 +196,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create a post
-  app.post("/api/posts", authenticateJWT, async (req, res, next) => {
+  app.post("/api/posts", authenticate, postWriteLimit, requireVerifiedEmail, async (req, res, next) => {
     try {
       const result = insertPostSchema.safeParse(req.body);
       if (!result.success) {
@@ -72,6 +209,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      const publishError = publishStateError(result.data.status ?? "published", result.data.publishAt);
+      if (publishError) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: publishError
+          }
+        });
+      }
+      
       if (!req.user) {
         return res.status(401).json({
           status: "error",
@@ -82,7 +229,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const post = await storage.createPost(result.data, req.user.id);
-      const postWithDetails = await storage.getPost(post.id);
+      if (result.data.attachmentIds) {
+        await storage.linkAttachments(result.data.attachmentIds, post.id, req.user.id);
+      }
+      const postWithDetails = await storage.getPost(post.id, { includeUnpublished: true });
       
       if (!postWithDetails) {
         return res.status(500).json({
@@ -93,6 +243,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      // Drafts and scheduled posts are announced when they go live
+      await emitPostWebhook(false, postWithDetails);
+      broadcastPostEvent("post.created", postWithDetails);
+      
       res.status(201).json({
         status: "success",
         data: {
@@ -105,10 +259,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get a specific post
-  app.get("/api/posts/:id", async (req, res, next) => {
+  app.get("/api/posts/:id", optionalAuthenticate, async (req, res, next) => {
     try {
       const id = parseInt(req.params.id);
-      const post = await storage.getPost(id);
+      const post = await getVisiblePost(id, req);
       
       if (!post) {
         return res.status(404).json({
@@ -131,7 +285,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update a post
-  app.put("/api/posts/:id", authenticateJWT, isAuthor, async (req, res, next) => {
+  app.put("/api/posts/:id", authenticate, postWriteLimit, isAuthor, async (req, res, next) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -146,8 +300,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      await storage.updatePost(id, result.data);
-      const updatedPost = await storage.getPost(id);
+      // Check the publishing state the post would end up in
+      const existingPost = await storage.getPost(id, { includeUnpublished: true });
+      if (existingPost) {
+        const publishError = publishStateError(
+          result.data.status ?? existingPost.status,
+          result.data.publishAt !== undefined ? result.data.publishAt : existingPost.publishAt
+        );
+        if (publishError) {
+          return res.status(422).json({
+            status: "error",
+            error: {
+              message: publishError
+            }
+          });
+        }
+      }
+      
+      await storage.updatePost(id, result.data, req.user!.id);
+      if (result.data.attachmentIds) {
+        await storage.linkAttachments(result.data.attachmentIds, id, req.user!.id);
+      }
+      const updatedPost = await storage.getPost(id, { includeUnpublished: true });
       
       if (!updatedPost) {
         return res.status(404).json({
@@ -158,6 +332,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      await emitPostWebhook(existingPost?.status === "published", updatedPost);
+      broadcastPostEvent("post.updated", updatedPost);
+      
       res.json({
         status: "success",
         data: {
@@ -170,7 +347,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete a post
-  app.delete("/api/posts/:id", authenticateJWT, isAuthor, async (req, res, next) => {
+  app.delete("/api/posts/:id", authenticate, isAuthor, async (req, res, next) => {
     try {
       const id = parseInt(req.params.id);
       const deleted = await storage.deletePost(id);
@@ -184,6 +361,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      const deletedPost = await storage.getPost(id, { includeDeleted: true, includeUnpublished: true });
+      if (deletedPost) {
+        await emitPostWebhook(deletedPost.status === "published", deletedPost, false);
+        broadcastPostEvent("post.deleted", deletedPost);
+      }
+      
       res.json({
         status: "success",
         data: null
@@ -193,17 +376,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ===== COMMENTS =====
-  // Get comments for a post
-  app.get("/api/posts/:postId/comments", async (req, res, next) => {
+  // Restore a post from the trash
+  app.post("/api/posts/:id/restore", authenticate, isAuthor, async (req, res, next) => {
     try {
-      const postId = parseInt(req.params.postId);
-      const comments = await storage.getCommentsByPostId(postId);
+      const id = parseInt(req.params.id);
+      const restored = await storage.restorePost(id);
+      
+      if (!restored) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Post not found in trash"
+          }
+        });
+      }
+      
+      const post = await storage.getPost(id, { includeUnpublished: true });
+      if (post) broadcastPostEvent("post.updated", post);
       
       res.json({
         status: "success",
         data: {
-          comments
+          post
         }
       });
     } catch (error) {
@@ -211,14 +405,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Create a comment
-  app.post("/api/posts/:postId/comments", authenticateJWT, async (req, res, next) => {
+  // Extend the lifetime of an expiring post. Authors call this signed in; the link in an expiry
+  // warning email calls it with the email's token instead, which is checked below.
+  const extendPost = async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const postId = parseInt(req.params.postId);
+      const id = parseInt(req.params.id);
       
-      // Check if post exists
-      const post = await storage.getPost(postId);
-      if (!post) {
+      const result = extendPostSchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+      
+      const existingPost = await storage.getPost(id, { includeUnpublished: true });
+      if (!existingPost) {
         return res.status(404).json({
           status: "error",
           error: {
@@ -227,52 +432,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Validate comment data
-      const commentData = { ...req.body, postId };
-      const result = insertCommentSchema.safeParse(commentData);
-      if (!result.success) {
-        return res.status(422).json({
+      if (result.data.token !== undefined && !verifyPostExtensionToken(result.data.token, existingPost)) {
+        return res.status(403).json({
           status: "error",
           error: {
-            message: "Validation failed",
-            details: result.error.format()
+            message: "This extension link is invalid or has already been used"
           }
         });
       }
       
-      if (!req.user) {
-        return res.status(401).json({
+      // Scheduled posts get their expiry when they go live
+      if (existingPost.status !== "published") {
+        return res.status(400).json({
           status: "error",
           error: {
-            message: "Authentication required"
+            message: "Only published posts can be extended"
           }
         });
       }
       
-      const comment = await storage.createComment(result.data, req.user.id);
-      const comments = await storage.getCommentsByPostId(postId);
-      const authoredComment = comments.find(c => c.id === comment.id);
+      if (!existingPost.expiresAt) {
+        return res.status(400).json({
+          status: "error",
+          error: {
+            message: "Post does not expire"
+          }
+        });
+      }
       
-      res.status(201).json({
+      // Never shorten the post's remaining lifetime
+      const expiresAt = new Date();
+      expiresAt.setHours(expiresAt.getHours() + result.data.hours);
+      if (expiresAt < existingPost.expiresAt) {
+        expiresAt.setTime(existingPost.expiresAt.getTime());
+      }
+      
+      await storage.extendPostExpiry(id, expiresAt);
+      const post = await storage.getPost(id, { includeUnpublished: true });
+      
+      if (post) {
+        await emitWebhookEvent("post.updated", { post });
+        broadcastPostEvent("post.updated", post);
+      }
+      
+      res.json({
         status: "success",
         data: {
-          comment: authoredComment
+          post
         }
       });
     } catch (error) {
       next(error);
     }
-  });
+  };
+  app.post("/api/posts/:id/extend", (req, res, next) => typeof req.body?.token === "string" ? next() : next("route"), extendPost);
+  app.post("/api/posts/:id/extend", authenticate, isAuthor, extendPost);
 
-  // Update a comment
-  app.put("/api/comments/:id", authenticateJWT, isAuthor, async (req, res, next) => {
+  // ===== REVISIONS =====
+  // Get the revision history of a post, newest first
+  app.get("/api/posts/:id/revisions", optionalAuthenticate, async (req, res, next) => {
     try {
       const id = parseInt(req.params.id);
       
-      const result = z.object({
-        body: z.string().min(1)
-      }).safeParse(req.body);
+      const post = await getVisiblePost(id, req);
+      if (!post) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Post not found"
+          }
+        });
+      }
+      
+      const revisions = await storage.getPostRevisions(id);
+      
+      res.json({
+        status: "success",
+        data: {
+          revisions
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Diff two revisions of a post
+  app.get("/api/posts/:id/revisions/diff", optionalAuthenticate, async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
       
+      const result = revisionDiffQuerySchema.safeParse(req.query);
       if (!result.success) {
         return res.status(422).json({
           status: "error",
@@ -283,24 +533,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const comment = await storage.updateComment(id, result.data);
+      const post = await getVisiblePost(id, req);
+      if (!post) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Post not found"
+          }
+        });
+      }
       
-      if (!comment) {
+      const { from, to } = result.data;
+      const [fromRevision, toRevision] = await Promise.all([
+        storage.getPostRevision(id, from),
+        storage.getPostRevision(id, to)
+      ]);
+      
+      if (!fromRevision || !toRevision) {
         return res.status(404).json({
           status: "error",
           error: {
-            message: "Comment not found"
+            message: "Revision not found"
           }
         });
       }
       
-      const comments = await storage.getCommentsByPostId(comment.postId);
-      const authoredComment = comments.find(c => c.id === comment.id);
+      if (isDiffTooLarge(fromRevision.body, toRevision.body)) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: `Revisions longer than ${MAX_DIFF_LINES} lines cannot be compared`
+          }
+        });
+      }
       
       res.json({
         status: "success",
         data: {
-          comment: authoredComment
+          diff: {
+            from,
+            to,
+            title: diffLines(fromRevision.title, toRevision.title),
+            body: diffLines(fromRevision.body, toRevision.body)
+          }
         }
       });
     } catch (error) {
@@ -308,40 +583,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Delete a comment
-  app.delete("/api/comments/:id", authenticateJWT, isAuthor, async (req, res, next) => {
+  // Roll a post back to an earlier revision; the rollback is recorded as a new revision
+  app.post("/api/posts/:id/revisions/:rev/restore", authenticate, isAuthor, async (req, res, next) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.deleteComment(id);
+      const rev = parseInt(req.params.rev);
       
-      if (!deleted) {
+      const revision = await storage.getPostRevision(id, rev);
+      if (!revision) {
         return res.status(404).json({
           status: "error",
           error: {
-            message: "Comment not found"
+            message: "Revision not found"
+          }
+        });
+      }
+      
+      await storage.updatePost(id, { title: revision.title, body: revision.body }, req.user!.id);
+      const updatedPost = await storage.getPost(id, { includeUnpublished: true });
+      
+      if (!updatedPost) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Post not found"
           }
         });
       }
       
+      await emitPostWebhook(updatedPost.status === "published", updatedPost);
+      broadcastPostEvent("post.updated", updatedPost);
+      
       res.json({
         status: "success",
-        data: null
+        data: {
+          post: updatedPost
+        }
       });
     } catch (error) {
       next(error);
     }
   });
 
-  // ===== TAGS =====
-  // Get all tags
-  app.get("/api/tags", async (_req, res, next) => {
+  // ===== COMMENTS =====
+  // Get comments for a post
+  app.get("/api/posts/:postId/comments", optionalAuthenticate, async (req, res, next) => {
     try {
-      const tags = await storage.getAllTags();
+      const postId = parseInt(req.params.postId);
+      
+      // Comments are only as visible as the post they belong to
+      const post = await getVisiblePost(postId, req);
+      if (!post) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Post not found"
+          }
+        });
+      }
+      
+      const comments = await storage.getCommentsByPostId(postId);
       
       res.json({
         status: "success",
         data: {
-          tags
+          comments
         }
       });
     } catch (error) {
@@ -349,15 +655,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update tags for a post
-  app.put("/api/posts/:id/tags", authenticateJWT, isAuthor, async (req, res, next) => {
+  // Create a comment
+  app.post("/api/posts/:postId/comments", authenticate, commentWriteLimit, async (req, res, next) => {
     try {
-      const id = parseInt(req.params.id);
+      const postId = parseInt(req.params.postId);
       
-      const result = z.object({
-        tags: z.array(z.string()).min(1)
-      }).safeParse(req.body);
+      // Check if post exists
+      const post = await storage.getPost(postId);
+      if (!post) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Post not found"
+          }
+        });
+      }
       
+      // Validate comment data
+      const commentData = { ...req.body, postId };
+      const result = insertCommentSchema.safeParse(commentData);
       if (!result.success) {
         return res.status(422).json({
           status: "error",
@@ -368,12 +684,937 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const updatedTags = await storage.updatePostTags(id, result.data.tags);
+      if (!req.user) {
+        return res.status(401).json({
+          status: "error",
+          error: {
+            message: "Authentication required"
+          }
+        });
+      }
       
-      res.json({
+      const comment = await storage.createComment(result.data, req.user.id);
+      const authoredComment = await storage.getCommentWithAuthor(comment.id);
+      
+      await emitWebhookEvent("comment.created", { comment: authoredComment });
+      broadcastCommentEvent("comment.created", comment);
+      
+      res.status(201).json({
         status: "success",
         data: {
-          tags: updatedTags
+          comment: authoredComment
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Reply to a comment
+  app.post("/api/comments/:id/replies", authenticate, commentWriteLimit, async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      const parent = await storage.getComment(id);
+      if (!parent) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Comment not found"
+          }
+        });
+      }
+      
+      // Replies can't be added under a post that is in the trash
+      const post = await storage.getPost(parent.postId);
+      if (!post) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Post not found"
+          }
+        });
+      }
+      
+      if (parent.depth >= MAX_COMMENT_DEPTH) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: `Replies can be nested at most ${MAX_COMMENT_DEPTH} levels deep`
+          }
+        });
+      }
+      
+      const result = insertCommentSchema.safeParse({ ...req.body, postId: parent.postId });
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+      
+      const reply = await storage.createComment(result.data, req.user!.id, parent);
+      const authoredReply = await storage.getCommentWithAuthor(reply.id);
+      
+      await emitWebhookEvent("comment.created", { comment: authoredReply });
+      broadcastCommentEvent("comment.created", reply);
+      
+      res.status(201).json({
+        status: "success",
+        data: {
+          comment: authoredReply
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Update a comment
+  app.put("/api/comments/:id", authenticate, commentWriteLimit, isAuthor, async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      const result = z.object({
+        body: z.string().min(1)
+      }).safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+      
+      const comment = await storage.updateComment(id, result.data);
+      
+      if (!comment) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Comment not found"
+          }
+        });
+      }
+      
+      const authoredComment = await storage.getCommentWithAuthor(comment.id);
+      broadcastCommentEvent("comment.updated", comment);
+      
+      res.json({
+        status: "success",
+        data: {
+          comment: authoredComment
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Delete a comment
+  app.delete("/api/comments/:id", authenticate, isAuthor, async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteComment(id);
+      
+      if (!deleted) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Comment not found"
+          }
+        });
+      }
+      
+      const deletedComment = await storage.getComment(id, { includeDeleted: true });
+      if (deletedComment) broadcastCommentEvent("comment.deleted", deletedComment);
+      
+      res.json({
+        status: "success",
+        data: null
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Restore a comment from the trash
+  app.post("/api/comments/:id/restore", authenticate, isAuthor, async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const comment = await storage.restoreComment(id);
+      
+      if (!comment) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Comment not found in trash"
+          }
+        });
+      }
+      
+      const authoredComment = await storage.getCommentWithAuthor(comment.id);
+      broadcastCommentEvent("comment.updated", comment);
+      
+      res.json({
+        status: "success",
+        data: {
+          comment: authoredComment
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ===== SEARCH =====
+  // Full-text search across posts and comments
+  app.get("/api/search", async (req, res, next) => {
+    try {
+      const result = z.object({
+        q: z.string().trim().min(1, "Search query is required"),
+        limit: z.coerce.number().int().min(1).max(50).default(20),
+        author_id: z.coerce.number().int().positive().optional()
+      }).safeParse(req.query);
+      
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+      
+      const results = await storage.search(result.data.q, {
+        limit: result.data.limit,
+        authorId: result.data.author_id
+      });
+      
+      res.json({
+        status: "success",
+        data: {
+          results
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ===== TRASH =====
+  // Get the current user's deleted posts and comments
+  app.get("/api/trash", authenticate, async (req, res, next) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          status: "error",
+          error: {
+            message: "Authentication required"
+          }
+        });
+      }
+      
+      const [posts, comments] = await Promise.all([
+        storage.getDeletedPostsByAuthor(req.user.id),
+        storage.getDeletedCommentsByAuthor(req.user.id)
+      ]);
+      
+      res.json({
+        status: "success",
+        data: {
+          posts,
+          comments
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ===== ATTACHMENTS =====
+  // Upload a file; it stays unlinked until a post is created or updated with its id
+  app.post("/api/attachments", authenticate, uploadLimit, uploadFile, async (req, res, next) => {
+    try {
+      if (!req.file) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "A file is required"
+          }
+        });
+      }
+      
+      if (!ALLOWED_ATTACHMENT_TYPES.includes(req.file.mimetype)) {
+        return res.status(415).json({
+          status: "error",
+          error: {
+            message: `Unsupported file type: ${req.file.mimetype}`
+          }
+        });
+      }
+      
+      const storageKey = `attachments/${randomUUID()}`;
+      await fileStorage.save(storageKey, req.file.buffer);
+      
+      const attachment = await storage.createAttachment({
+        uploaderId: req.user!.id,
+        storageKey,
+        filename: req.file.originalname,
+        mimeType: req.file.mimetype,
+        size: req.file.size
+      });
+      
+      res.status(201).json({
+        status: "success",
+        data: {
+          attachment
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Download an attachment; files on unpublished posts or not yet linked stay private
+  app.get("/api/attachments/:id", optionalAuthenticate, async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const attachment = await storage.getAttachment(id);
+      
+      const visible = attachment && (attachment.postId === null
+        ? attachment.uploaderId === req.user?.id
+        : !!(await getVisiblePost(attachment.postId, req)));
+      
+      if (!attachment || !visible) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Attachment not found"
+          }
+        });
+      }
+      
+      const disposition = attachment.mimeType.startsWith("image/") ? "inline" : "attachment";
+      res.setHeader("Content-Type", attachment.mimeType);
+      res.setHeader("Content-Length", attachment.size);
+      res.setHeader("Content-Disposition", `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      
+      fileStorage.createReadStream(attachment.storageKey)
+        .on("error", next)
+        .pipe(res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Delete an attachment and its file
+  app.delete("/api/attachments/:id", authenticate, async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const attachment = await storage.getAttachment(id);
+      
+      if (!attachment) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Attachment not found"
+          }
+        });
+      }
+      
+      if (attachment.uploaderId !== req.user!.id && req.user!.role === "user") {
+        return res.status(403).json({
+          status: "error",
+          error: {
+            message: "You are not authorized to modify this attachment"
+          }
+        });
+      }
+      
+      await fileStorage.delete(attachment.storageKey);
+      await storage.deleteAttachment(id);
+      
+      res.json({
+        status: "success",
+        data: null
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List the attachments of a post
+  app.get("/api/posts/:id/attachments", optionalAuthenticate, async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      const post = await getVisiblePost(id, req);
+      if (!post) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Post not found"
+          }
+        });
+      }
+      
+      const attachments = await storage.getAttachmentsByPostId(id);
+      
+      res.json({
+        status: "success",
+        data: {
+          attachments
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ===== MARKDOWN =====
+  // Render Markdown exactly as it will be stored, for live previews in the editors
+  app.post("/api/markdown/preview", authenticate, async (req, res, next) => {
+    try {
+      const result = markdownPreviewSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+      
+      res.json({
+        status: "success",
+        data: {
+          html: renderMarkdown(result.data.body)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ===== DRAFTS =====
+  // Get the current user's drafts and scheduled posts
+  app.get("/api/drafts", authenticate, async (req, res, next) => {
+    try {
+      const posts = await storage.getUnpublishedPostsByAuthor(req.user!.id);
+      
+      res.json({
+        status: "success",
+        data: {
+          posts
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ===== CONFIG =====
+  // Server settings the client needs to mirror, such as when a post counts as expiring soon
+  app.get("/api/config", (_req, res) => {
+    res.json({
+      status: "success",
+      data: {
+        expiryWarningHours: EXPIRY_WARNING_HOURS
+      }
+    });
+  });
+
+  // ===== TAGS =====
+  // Get all tags
+  app.get("/api/tags", async (_req, res, next) => {
+    try {
+      const tags = await storage.getAllTags();
+      
+      res.json({
+        status: "success",
+        data: {
+          tags
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Update tags for a post
+  app.put("/api/posts/:id/tags", authenticate, isAuthor, async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      const result = z.object({
+        tags: z.array(z.string()).min(1)
+      }).safeParse(req.body);
+      
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+      
+      const updatedTags = await storage.updatePostTags(id, result.data.tags);
+      const post = await storage.getPost(id, { includeUnpublished: true });
+      if (post) broadcastPostEvent("post.updated", post);
+      
+      res.json({
+        status: "success",
+        data: {
+          tags: updatedTags
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ===== USERS =====
+  
+  // Public profile of a user, with counts of their visible posts and comments
+  app.get("/api/users/:id", async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      const profile = await storage.getUserProfile(id);
+      if (!profile) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "User not found"
+          }
+        });
+      }
+      
+      res.json({
+        status: "success",
+        data: {
+          user: profile
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ===== FEEDS =====
+  // Each feed is served as RSS 2.0 at feed.xml and as Atom at atom.xml
+  
+  // Latest posts from everyone
+  app.get(["/feed.xml", "/atom.xml"], async (req, res, next) => {
+    try {
+      const { posts } = await storage.queryPosts({ sort: "newest" }, { limit: FEED_SIZE });
+      
+      sendFeed(req, res, {
+        title: FEED_TITLE,
+        description: `Latest posts on ${FEED_TITLE}`,
+        link: appUrl(req, "/"),
+        posts
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Latest posts with a tag
+  app.get(["/tags/:name/feed.xml", "/tags/:name/atom.xml"], async (req, res, next) => {
+    try {
+      const name = req.params.name.trim().toLowerCase();
+      
+      const tag = await storage.getTagByName(name);
+      if (!tag) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Tag not found"
+          }
+        });
+      }
+      
+      const { posts } = await storage.queryPosts({ tags: [tag.name], sort: "newest" }, { limit: FEED_SIZE });
+      
+      sendFeed(req, res, {
+        title: `${FEED_TITLE}: ${tag.name}`,
+        description: `Latest posts tagged "${tag.name}" on ${FEED_TITLE}`,
+        link: appUrl(req, "/"),
+        posts
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Latest posts by an author
+  app.get(["/users/:id/feed.xml", "/users/:id/atom.xml"], async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      const author = await storage.getUser(id);
+      if (!author) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "User not found"
+          }
+        });
+      }
+      
+      const { posts } = await storage.queryPosts({ authorId: author.id, sort: "newest" }, { limit: FEED_SIZE });
+      
+      sendFeed(req, res, {
+        title: `${FEED_TITLE}: ${author.name}`,
+        description: `Latest posts by ${author.name} on ${FEED_TITLE}`,
+        link: appUrl(req, `/users/${author.id}`),
+        posts
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ===== NOTIFICATIONS =====
+  
+  // The current user's notifications, newest first, with the unread total for badges
+  app.get("/api/notifications", authenticate, async (req, res, next) => {
+    try {
+      const result = notificationQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+      
+      const notifications = await storage.getNotifications(req.user!.id, {
+        limit: result.data.limit,
+        unreadOnly: result.data.unread
+      });
+      const unreadCount = await storage.countUnreadNotifications(req.user!.id);
+      
+      res.json({
+        status: "success",
+        data: {
+          notifications,
+          unreadCount
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Mark the given notifications, or all of them, as read
+  app.post("/api/notifications/read", authenticate, async (req, res, next) => {
+    try {
+      const result = markNotificationsReadSchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+      
+      await storage.markNotificationsRead(req.user!.id, result.data.ids, new Date());
+      const unreadCount = await storage.countUnreadNotifications(req.user!.id);
+      
+      res.json({
+        status: "success",
+        data: {
+          unreadCount
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ===== ADMIN =====
+  
+  // List all users with their roles
+  app.get("/api/admin/users", authenticate, requireRole("admin"), async (req, res, next) => {
+    try {
+      const users = await storage.getAllUsers();
+      
+      res.json({
+        status: "success",
+        data: {
+          users: users.map(({ password, ...user }) => user)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Change a user's role
+  app.put("/api/admin/users/:id/role", authenticate, requireRole("admin"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      const result = updateUserRoleSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+      
+      // Keeps an admin from accidentally locking themselves out
+      if (id === req.user!.id) {
+        return res.status(400).json({
+          status: "error",
+          error: {
+            message: "You cannot change your own role"
+          }
+        });
+      }
+      
+      const user = await storage.updateUserRole(id, result.data.role);
+      if (!user) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "User not found"
+          }
+        });
+      }
+      
+      const { password, ...userWithoutPassword } = user;
+      
+      res.json({
+        status: "success",
+        data: {
+          user: userWithoutPassword
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Most recent security events, such as account lockouts
+  app.get("/api/admin/audit-logs", authenticate, requireRole("admin"), async (req, res, next) => {
+    try {
+      const result = z.object({
+        limit: z.coerce.number().int().min(1).max(500).default(100)
+      }).safeParse(req.query);
+      
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+      
+      const entries = await storage.getAuditLogs(result.data.limit);
+      
+      res.json({
+        status: "success",
+        data: {
+          entries
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ===== WEBHOOKS =====
+  
+  // List webhook subscriptions
+  app.get("/api/webhooks", authenticate, requireRole("admin"), async (req, res, next) => {
+    try {
+      const webhooks = await storage.getWebhooks();
+      
+      res.json({
+        status: "success",
+        data: {
+          webhooks: webhooks.map(toPublicWebhook)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Subscribe a URL to events; the signing secret is only returned here
+  app.post("/api/webhooks", authenticate, requireRole("admin"), async (req, res, next) => {
+    try {
+      const result = webhookSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+      
+      const webhook = await storage.createWebhook(result.data, req.user!.id, generateWebhookSecret());
+      
+      res.status(201).json({
+        status: "success",
+        data: {
+          webhook: toPublicWebhook(webhook),
+          secret: webhook.secret
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Get a webhook subscription
+  app.get("/api/webhooks/:id", authenticate, requireRole("admin"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const webhook = isNaN(id) ? undefined : await storage.getWebhook(id);
+      
+      if (!webhook) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Webhook not found"
+          }
+        });
+      }
+      
+      res.json({
+        status: "success",
+        data: {
+          webhook: toPublicWebhook(webhook)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Change a webhook's URL, events or active flag
+  app.put("/api/webhooks/:id", authenticate, requireRole("admin"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      const result = webhookSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+      
+      const webhook = isNaN(id) ? undefined : await storage.updateWebhook(id, result.data);
+      if (!webhook) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Webhook not found"
+          }
+        });
+      }
+      
+      res.json({
+        status: "success",
+        data: {
+          webhook: toPublicWebhook(webhook)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Delete a webhook subscription along with its delivery log
+  app.delete("/api/webhooks/:id", authenticate, requireRole("admin"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = !isNaN(id) && await storage.deleteWebhook(id);
+      
+      if (!deleted) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Webhook not found"
+          }
+        });
+      }
+      
+      res.json({
+        status: "success",
+        data: null
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Most recent deliveries to a webhook, with their attempts and outcome
+  app.get("/api/webhooks/:id/deliveries", authenticate, requireRole("admin"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      const result = z.object({
+        limit: z.coerce.number().int().min(1).max(500).default(50)
+      }).safeParse(req.query);
+      
+      if (!result.success) {
+        return res.status(422).json({
+          status: "error",
+          error: {
+            message: "Validation failed",
+            details: result.error.format()
+          }
+        });
+      }
+      
+      const webhook = isNaN(id) ? undefined : await storage.getWebhook(id);
+      if (!webhook) {
+        return res.status(404).json({
+          status: "error",
+          error: {
+            message: "Webhook not found"
+          }
+        });
+      }
+      
+      const deliveries = await storage.getWebhookDeliveries(id, result.data.limit);
+      
+      res.json({
+        status: "success",
+        data: {
+          deliveries
         }
       });
     } catch (error) {
@@ -383,5 +1624,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Create HTTP server
   const httpServer = createServer(app);
+  
+  // Push post and comment changes to subscribed browsers
+  setupRealtime(httpServer);
+  
   return httpServer;
 }
@@ -1,32 +1,173 @@
 import schedule from "node-schedule";
 import { storage } from "./storage";
+import { fileStorage } from "./file-storage";
+import { emitWebhookEvent, retryWebhookDeliveries } from "./webhooks";
+import { broadcastPostEvent } from "./realtime";
+import { mailer } from "./mailer";
+import { appUrl, signPostExtensionToken } from "./auth";
+import { DEFAULT_POST_TTL_HOURS, type Post } from "@shared/schema";
+
+// How long deleted posts and comments stay in the trash before being purged
+const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+// How long an upload may stay unlinked from any post before its file is removed
+const UNLINKED_ATTACHMENT_HOURS = 24;
+
+// How long before a post expires its author is warned
+export const EXPIRY_WARNING_HOURS = Number(process.env.EXPIRY_WARNING_HOURS) || 2;
+
+// How long finished webhook deliveries stay in the delivery log
+const WEBHOOK_DELIVERY_RETENTION_DAYS = 30;
+
+// Email the author that their post is about to be deleted, with a link to extend it
+async function sendExpiryWarning(post: Post & { expiresAt: Date }): Promise<void> {
+  const author = await storage.getUser(post.authorId);
+  if (!author) return;
+  
+  await mailer.send({
+    to: author.email,
+    subject: `Your post "${post.title}" expires soon`,
+    text: [
+      `Hi ${author.name},`,
+      "",
+      `Your post "${post.title}" will be deleted at ${post.expiresAt.toUTCString()}.`,
+      "",
+      `To keep it online for another ${DEFAULT_POST_TTL_HOURS} hours, open this link:`,
+      "",
+      appUrl(undefined, `/post/${post.id}/extend?token=${signPostExtensionToken(post)}`),
+      "",
+      "You can also view the post at:",
+      "",
+      appUrl(undefined, `/post/${post.id}`)
+    ].join("\n")
+  });
+}
 
 export function setupScheduler() {
-  // Schedule posts deletion job to run every hour
-  const job = schedule.scheduleJob("0 * * * *", async () => {
+  // Schedule posts deletion job to run every minute, like publishing, so posts disappear when they expire
+  const job = schedule.scheduleJob("* * * * *", async () => {
+    try {
+      // Get posts whose expiry time has passed
+      const expiredPosts = await storage.getPostsExpiringBefore(new Date());
+      
+      // Move each post to the trash
+      for (const post of expiredPosts) {
+        await storage.deletePost(post.id);
+        const expiredPost = await storage.getPost(post.id, { includeDeleted: true });
+        await emitWebhookEvent("post.expired", { post: expiredPost ?? { id: post.id } });
+        broadcastPostEvent("post.deleted", post);
+        console.log(`Deleted post with id: ${post.id}`);
+      }
+      
+      if (expiredPosts.length > 0) {
+        console.log(`Deleted ${expiredPosts.length} expired posts`);
+      }
+    } catch (error) {
+      console.error("Error in post deletion job:", error);
+    }
+  });
+  
+  // Schedule trash purge job to run every hour
+  const purgeJob = schedule.scheduleJob("30 * * * *", async () => {
     try {
-      console.log("Running scheduled post deletion job...");
+      console.log("Running scheduled trash purge job...");
+      
+      const cutoffTime = new Date();
+      cutoffTime.setDate(cutoffTime.getDate() - TRASH_RETENTION_DAYS);
       
-      // Get posts older than 24 hours
-      const oldPosts = await storage.getPostsOlderThan(24);
+      const purged = await storage.purgeDeletedBefore(cutoffTime);
+      console.log(`Purged ${purged.posts} posts and ${purged.comments} comments from the trash`);
+
+      // Expired refresh tokens, revocation entries and spent reset tokens are no longer needed
+      await storage.purgeExpiredTokens(new Date());
       
-      if (oldPosts.length > 0) {
-        console.log(`Found ${oldPosts.length} posts to delete`);
+      // Remove abandoned uploads and the files of purged posts
+      const attachmentCutoff = new Date();
+      attachmentCutoff.setHours(attachmentCutoff.getHours() - UNLINKED_ATTACHMENT_HOURS);
+      
+      const orphanedAttachments = await storage.getOrphanedAttachments(attachmentCutoff);
+      for (const attachment of orphanedAttachments) {
+        await fileStorage.delete(attachment.storageKey);
+        await storage.deleteAttachment(attachment.id);
+      }
+      
+      // Trim the webhook delivery log
+      const deliveryCutoff = new Date();
+      deliveryCutoff.setDate(deliveryCutoff.getDate() - WEBHOOK_DELIVERY_RETENTION_DAYS);
+      await storage.purgeWebhookDeliveriesBefore(deliveryCutoff);
+    } catch (error) {
+      console.error("Error in trash purge job:", error);
+    }
+  });
+  
+  // Schedule publishing job to run every minute so scheduled posts go live on time
+  const publishJob = schedule.scheduleJob("* * * * *", async () => {
+    try {
+      const published = await storage.publishDuePosts(new Date());
+      
+      for (const post of published) {
+        const publishedPost = await storage.getPost(post.id);
+        if (publishedPost) await emitWebhookEvent("post.created", { post: publishedPost });
+        broadcastPostEvent("post.created", post);
+      }
+      
+      if (published.length > 0) {
+        console.log(`Published ${published.length} scheduled posts`);
+      }
+    } catch (error) {
+      console.error("Error in post publishing job:", error);
+    }
+  });
+  
+  // Schedule expiry warning job to run every 15 minutes; each post expiry is only warned about once
+  const expiryWarningJob = schedule.scheduleJob("*/15 * * * *", async () => {
+    try {
+      const now = new Date();
+      const warnBefore = new Date(now);
+      warnBefore.setHours(warnBefore.getHours() + EXPIRY_WARNING_HOURS);
+      
+      const expiringPosts = await storage.getPostsExpiringBefore(warnBefore);
+      let warned = 0;
+      
+      for (const post of expiringPosts) {
+        if (!post.expiresAt || post.expiresAt <= now) continue;
         
-        // Delete each post
-        for (const post of oldPosts) {
-          await storage.deletePost(post.id);
-          console.log(`Deleted post with id: ${post.id}`);
-        }
+        const notification = await storage.createNotification({
+          userId: post.authorId,
+          type: "post_expiring",
+          postId: post.id,
+          postExpiresAt: post.expiresAt
+        });
+        if (!notification) continue;
         
-        console.log("Post deletion job completed successfully");
-      } else {
-        console.log("No posts to delete");
+        warned++;
+        try {
+          await sendExpiryWarning({ ...post, expiresAt: post.expiresAt });
+        } catch (error) {
+          console.error(`Error emailing expiry warning for post ${post.id}:`, error);
+        }
+      }
+      
+      if (warned > 0) {
+        console.log(`Warned authors about ${warned} expiring posts`);
       }
     } catch (error) {
-      console.error("Error in post deletion job:", error);
+      console.error("Error in expiry warning job:", error);
+    }
+  });
+  
+  // Schedule webhook retry job to run every minute, picking up deliveries whose backoff has elapsed
+  const webhookJob = schedule.scheduleJob("* * * * *", async () => {
+    try {
+      const retried = await retryWebhookDeliveries(new Date());
+      
+      if (retried > 0) {
+        console.log(`Retried ${retried} webhook deliveries`);
+      }
+    } catch (error) {
+      console.error("Error in webhook retry job:", error);
     }
   });
   
-  return job;
+  return { job, purgeJob, publishJob, expiryWarningJob, webhookJob };
 }
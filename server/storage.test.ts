@@ -0,0 +1,91 @@
+import { test, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { encodeCursor, decodeCursor } from "./cursor";
+
+// storage.ts opens a (lazy) database pool on import; these tests only use MemStorage
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+const { MemStorage } = await import("./storage");
+
+const NOW = new Date("2024-01-01T12:00:00.123Z");
+
+// Posts created while the clock is frozen share a createdAt, so only the id orders them
+async function createPostsInSameMillisecond(t: TestContext, count: number) {
+  t.mock.timers.enable({ apis: ["Date"], now: NOW });
+  const storage = new MemStorage();
+  const author = await storage.createUser({ name: "Author", email: "author@example.com", password: "secret" });
+  
+  const posts = [];
+  for (let i = 0; i < count; i++) {
+    posts.push(await storage.createPost({ title: `Post ${i}`, body: "Body", tags: ["test"] }, author.id));
+  }
+  
+  return { storage, posts };
+}
+
+test("new posts get their timestamps from the application clock, to the millisecond", async (t) => {
+  const { posts: [post] } = await createPostsInSameMillisecond(t, 1);
+  
+  assert.equal(post.createdAt.toISOString(), NOW.toISOString());
+  assert.equal(post.updatedAt.toISOString(), NOW.toISOString());
+});
+
+for (const sort of ["newest", "oldest"] as const) {
+  test(`cursor pagination (${sort}) visits posts created in the same millisecond exactly once`, async (t) => {
+    const { storage, posts } = await createPostsInSameMillisecond(t, 3);
+    
+    // Follow next cursors the way clients do, through their encoded form
+    const ids: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await storage.queryPosts({ sort }, { limit: 1, cursor: cursor ? decodeCursor(cursor) : undefined });
+      assert.equal(page.posts.length, 1);
+      ids.push(page.posts[0].id);
+      cursor = page.nextCursor ? encodeCursor(page.nextCursor) : undefined;
+    } while (cursor);
+    
+    const created = posts.map(post => post.id);
+    assert.deepEqual(ids, sort === "oldest" ? created : created.reverse());
+  });
+}
+
+test("cursors survive encoding with their millisecond timestamp intact", () => {
+  const cursor = { createdAt: NOW, id: 42 };
+  
+  assert.deepEqual(decodeCursor(encodeCursor(cursor)), cursor);
+  assert.equal(decodeCursor("not a cursor"), undefined);
+});
+
+test("tag_mode=all ignores repeated and differently cased tags", async () => {
+  const storage = new MemStorage();
+  const author = await storage.createUser({ name: "Author", email: "author@example.com", password: "secret" });
+  const post = await storage.createPost({ title: "Tagged", body: "Body", tags: ["a", "b"] }, author.id);
+  
+  const result = await storage.queryPosts({ tags: ["a", "A ", "a"], tagMode: "all" }, { limit: 10 });
+  assert.deepEqual(result.posts.map(p => p.id), [post.id]);
+});
+
+test("only one of two concurrent refresh token rotations succeeds", async () => {
+  const storage = new MemStorage();
+  const token = await storage.createRefreshToken({
+    userId: 1,
+    familyId: "family",
+    tokenHash: "hash",
+    expiresAt: new Date(Date.now() + 60_000)
+  });
+  
+  const results = await Promise.all([storage.revokeRefreshToken(token.id), storage.revokeRefreshToken(token.id)]);
+  assert.equal(results.filter(Boolean).length, 1);
+});
+
+test("restoring a post after its expiry passed gives it its lifetime again", async (t) => {
+  t.mock.timers.enable({ apis: ["Date"], now: new Date("2024-01-01T00:00:00.000Z") });
+  const storage = new MemStorage();
+  const author = await storage.createUser({ name: "Author", email: "author@example.com", password: "secret" });
+  const post = await storage.createPost({ title: "Short-lived", body: "Body", tags: [], ttlHours: 2 }, author.id);
+  await storage.deletePost(post.id);
+  
+  t.mock.timers.tick(3 * 60 * 60 * 1000);
+  const restored = await storage.restorePost(post.id);
+  assert.equal(restored?.expiresAt?.toISOString(), "2024-01-01T05:00:00.000Z");
+  assert.deepEqual(await storage.getPostsExpiringBefore(new Date()), []);
+});
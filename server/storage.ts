@@ -1,7 +1,9 @@
-import { users, posts, tags, postTags, comments } from "@shared/schema";
+import { users, posts, postRevisions, attachments, tags, postTags, comments, refreshTokens, revokedTokens, passwordResetTokens, emailVerificationTokens, twoFactorSecrets, recoveryCodes, apiKeys, webhooks, webhookDeliveries, notifications, auditLogs, DEFAULT_POST_TTL_HOURS } from "@shared/schema";
 import type {
   User,
   InsertUser,
+  UserRole,
+  UserProfile,
   Post,
   InsertPost,
   Tag,
@@ -11,35 +13,223 @@ import type {
   Comment,
   InsertComment,
   PostWithDetails,
-  CommentWithAuthor
+  PostRevision,
+  PostRevisionWithEditor,
+  Attachment,
+  InsertAttachment,
+  CommentWithAuthor,
+  CommentThread,
+  SearchResult,
+  RefreshToken,
+  InsertRefreshToken,
+  PasswordResetToken,
+  InsertPasswordResetToken,
+  EmailVerificationToken,
+  InsertEmailVerificationToken,
+  TwoFactorSecret,
+  RecoveryCode,
+  ApiKey,
+  InsertApiKey,
+  Webhook,
+  WebhookInput,
+  WebhookEvent,
+  WebhookDelivery,
+  InsertWebhookDelivery,
+  Notification,
+  InsertNotification,
+  NotificationWithDetails,
+  AuditLog,
+  InsertAuditLog
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
-import { eq, lt, and, count, sql, desc } from "drizzle-orm";
+import { eq, ne, lt, lte, gt, gte, and, or, count, sql, asc, desc, isNull, isNotNull, inArray, arrayContains, getTableColumns, type SQL, type AnyColumn } from "drizzle-orm";
 import { db, pool } from "./db";
+import { renderMarkdown, markdownExcerpt } from "./markdown";
 
 const MemoryStore = createMemoryStore(session);
 const PostgresSessionStore = connectPg(session);
 
+// Selectable columns, leaving out the generated full-text search vectors
+const { searchVector: _postSearchVector, ...postColumns } = getTableColumns(posts);
+const { searchVector: _commentSearchVector, ...commentColumns } = getTableColumns(comments);
+
 // Define the session store type
 type SessionStore = session.Store;
 
+// Lookup options for resources that can sit in the trash
+export interface LookupOptions {
+  includeDeleted?: boolean;
+  // Also find drafts and scheduled posts
+  includeUnpublished?: boolean;
+}
+
+// Position of the last post on a page, in (createdAt, id) sort order
+export interface PostCursor {
+  createdAt: Date;
+  id: number;
+}
+
+export type PostSort = "newest" | "oldest" | "most_commented";
+
+// All criteria are combined; tagMode decides whether any or all tags must match
+export interface PostFilter {
+  tags?: string[];
+  tagMode?: "any" | "all";
+  authorId?: number;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  sort?: PostSort;
+}
+
+// A cursor takes precedence over an offset, except for most_commented which only pages by offset
+export interface PageOptions {
+  limit: number;
+  offset?: number;
+  cursor?: PostCursor;
+}
+
+export interface PostPage {
+  posts: PostWithDetails[];
+  totalCount: number;
+  nextCursor: PostCursor | null;
+}
+
+export interface SearchOptions {
+  limit: number;
+  // Only match content written by this user
+  authorId?: number;
+}
+
+export interface NotificationOptions {
+  limit: number;
+  unreadOnly?: boolean;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Excerpt around the first match with terms wrapped in <mark>, like ts_headline
+function highlightSnippet(text: string, terms: string[], maxLength = 200): string {
+  const lowerText = text.toLowerCase();
+  const firstMatch = Math.min(...terms.map(term => {
+    const index = lowerText.indexOf(term);
+    return index === -1 ? text.length : index;
+  }));
+  
+  const start = Math.max(0, Math.min(firstMatch - 60, text.length - maxLength));
+  const excerpt = text.slice(start, start + maxLength);
+  
+  let snippet = escapeHtml(excerpt);
+  for (const term of terms) {
+    const pattern = escapeHtml(term).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    snippet = snippet.replace(new RegExp(pattern, "gi"), "<mark>$&</mark>");
+  }
+  
+  return `${start > 0 ? "…" : ""}${snippet}${start + maxLength < text.length ? "…" : ""}`;
+}
+
+// ts_headline over HTML-escaped text so the <mark> tags it adds are the only markup
+function headline(column: AnyColumn, tsQuery: SQL): SQL<string> {
+  return sql<string>`ts_headline(
+    'english',
+    replace(replace(replace(${column}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+    ${tsQuery},
+    'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35, MaxFragments=2, FragmentDelimiter=" … "'
+  )`;
+}
+
+// Position of a post relative to a cursor in ascending (createdAt, id) order
+function compareToCursor(post: Post, cursor: PostCursor): number {
+  return post.createdAt.getTime() - cursor.createdAt.getTime() || post.id - cursor.id;
+}
+
+// Tag filters match case-insensitively, and a repeated tag must not count twice towards tag_mode=all
+function normalizeTagNames(tagNames: string[]): string[] {
+  return Array.from(new Set(tagNames.map(tag => tag.trim().toLowerCase()).filter(tag => tag !== "")));
+}
+
+// Resolve a post's expiry time from its TTL; undefined falls back to the default lifetime
+function resolveExpiresAt(ttlHours: number | null | undefined, from: Date = new Date()): Date | null {
+  if (ttlHours === null) return null;
+  
+  const expiresAt = new Date(from);
+  expiresAt.setHours(expiresAt.getHours() + (ttlHours ?? DEFAULT_POST_TTL_HOURS));
+  return expiresAt;
+}
+
+// Publishing stamps createdAt so the post lists as new, and restarts any lifetime it had from then
+function publishAs(post: Post, at: Date): Post {
+  const lifetime = post.expiresAt && post.expiresAt.getTime() - post.createdAt.getTime();
+  return {
+    ...post,
+    status: "published",
+    publishAt: at,
+    createdAt: at,
+    expiresAt: lifetime === null ? null : new Date(at.getTime() + lifetime)
+  };
+}
+
+// A post restored after its expiry passed gets its lifetime again from now, so the expiry job doesn't trash it straight back
+function restoredExpiresAt(post: Post, at: Date): Date | null {
+  if (!post.expiresAt || post.expiresAt > at) return post.expiresAt;
+  return new Date(at.getTime() + post.expiresAt.getTime() - post.createdAt.getTime());
+}
+
+// Nest a post's comments (oldest first, trash included) into threads: newest threads first, replies oldest first.
+// Trashed comments are dropped unless they have visible replies, in which case their body is blanked.
+// Replies whose parent was purged are promoted to the top level.
+function buildCommentTree(postComments: CommentWithAuthor[]): CommentThread[] {
+  const nodes = new Map<number, CommentThread>();
+  for (const comment of postComments) {
+    nodes.set(comment.id, { ...comment, replies: [] });
+  }
+  
+  const roots: CommentThread[] = [];
+  for (const node of Array.from(nodes.values())) {
+    const parent = node.parentId !== null ? nodes.get(node.parentId) : undefined;
+    (parent ? parent.replies : roots).push(node);
+  }
+  
+  const prune = (threads: CommentThread[]): CommentThread[] => threads
+    .map(thread => ({ ...thread, replies: prune(thread.replies) }))
+    .filter(thread => !thread.deletedAt || thread.replies.length > 0)
+    .map(thread => thread.deletedAt ? { ...thread, body: "", bodyHtml: "" } : thread);
+  
+  return prune(roots).reverse();
+}
+
 // Interface for storage operations
+// The outcome of a delivery attempt
+export type WebhookDeliveryUpdate = Partial<Pick<WebhookDelivery, "status" | "attempts" | "nextAttemptAt" | "responseStatus" | "error" | "deliveredAt">>;
+
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getAllUsers(): Promise<User[]>;
+  updateUserRole(id: number, role: UserRole): Promise<User | undefined>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
+  verifyUserEmail(id: number, time: Date): Promise<User | undefined>;
+  getUserProfile(id: number): Promise<UserProfile | undefined>;
 
   // Post operations
   createPost(post: InsertPost, authorId: number): Promise<Post>;
-  getPost(id: number): Promise<PostWithDetails | undefined>;
-  getAllPosts(): Promise<PostWithDetails[]>;
-  getPostsByAuthor(authorId: number): Promise<PostWithDetails[]>;
-  getPostsByTag(tagName: string): Promise<PostWithDetails[]>;
-  updatePost(id: number, post: Partial<InsertPost>): Promise<Post | undefined>;
+  getPost(id: number, options?: LookupOptions): Promise<PostWithDetails | undefined>;
+  queryPosts(filter: PostFilter, page: PageOptions): Promise<PostPage>;
+  updatePost(id: number, post: Partial<InsertPost>, editorId: number): Promise<Post | undefined>;
   deletePost(id: number): Promise<boolean>;
+  restorePost(id: number): Promise<Post | undefined>;
+  extendPostExpiry(id: number, expiresAt: Date): Promise<Post | undefined>;
+  getDeletedPostsByAuthor(authorId: number): Promise<Post[]>;
+  getUnpublishedPostsByAuthor(authorId: number): Promise<PostWithDetails[]>;
+  
+  // Revision operations
+  getPostRevisions(postId: number): Promise<PostRevisionWithEditor[]>;
+  getPostRevision(postId: number, revision: number): Promise<PostRevision | undefined>;
   
   // Tag operations
   createTag(tag: InsertTag): Promise<Tag>;
@@ -53,14 +243,89 @@ export interface IStorage {
   updatePostTags(postId: number, tagNames: string[]): Promise<string[]>;
   
   // Comment operations
-  createComment(comment: InsertComment, authorId: number): Promise<Comment>;
-  getCommentsByPostId(postId: number): Promise<CommentWithAuthor[]>;
+  createComment(comment: InsertComment, authorId: number, parent?: Comment): Promise<Comment>;
+  getCommentsByPostId(postId: number): Promise<CommentThread[]>;
+  getCommentWithAuthor(id: number): Promise<CommentWithAuthor | undefined>;
   updateComment(id: number, comment: Partial<InsertComment>): Promise<Comment | undefined>;
   deleteComment(id: number): Promise<boolean>;
-  getComment(id: number): Promise<Comment | undefined>;
+  restoreComment(id: number): Promise<Comment | undefined>;
+  getComment(id: number, options?: LookupOptions): Promise<Comment | undefined>;
+  getDeletedCommentsByAuthor(authorId: number): Promise<Comment[]>;
+  
+  // Token operations
+  createRefreshToken(token: InsertRefreshToken): Promise<RefreshToken>;
+  getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined>;
+  // Returns the token only if this call revoked it, so concurrent rotations can't both succeed
+  revokeRefreshToken(id: number): Promise<RefreshToken | undefined>;
+  revokeTokenFamily(familyId: string, until: Date): Promise<void>;
+  isTokenFamilyRevoked(familyId: string): Promise<boolean>;
+  getActiveTokenFamilies(userId: number): Promise<string[]>;
+  purgeExpiredTokens(time: Date): Promise<number>;
+  
+  // Password reset operations
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  consumePasswordResetToken(tokenHash: string, time: Date): Promise<PasswordResetToken | undefined>;
+  
+  // Email verification operations
+  createEmailVerificationToken(token: InsertEmailVerificationToken): Promise<EmailVerificationToken>;
+  consumeEmailVerificationToken(tokenHash: string, time: Date): Promise<EmailVerificationToken | undefined>;
+  
+  // Two-factor authentication operations
+  getTwoFactorSecret(userId: number): Promise<TwoFactorSecret | undefined>;
+  saveTwoFactorSecret(userId: number, secret: string): Promise<TwoFactorSecret>;
+  enableTwoFactor(userId: number, time: Date): Promise<TwoFactorSecret | undefined>;
+  useTwoFactorStep(userId: number, step: number): Promise<boolean>;
+  deleteTwoFactor(userId: number): Promise<void>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: number, codeHash: string, time: Date): Promise<boolean>;
+  countRecoveryCodes(userId: number): Promise<number>;
+  
+  // API key operations; revoked keys are never returned
+  createApiKey(key: InsertApiKey): Promise<ApiKey>;
+  getApiKeysByUser(userId: number): Promise<ApiKey[]>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  revokeApiKey(id: number, userId: number, time: Date): Promise<ApiKey | undefined>;
+  touchApiKey(id: number, time: Date): Promise<void>;
+  
+  // Webhook operations
+  createWebhook(webhook: WebhookInput, userId: number, secret: string): Promise<Webhook>;
+  getWebhooks(): Promise<Webhook[]>;
+  getWebhook(id: number): Promise<Webhook | undefined>;
+  updateWebhook(id: number, update: Partial<WebhookInput>): Promise<Webhook | undefined>;
+  deleteWebhook(id: number): Promise<boolean>;
+  getWebhooksForEvent(event: WebhookEvent): Promise<Webhook[]>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]>;
+  getDueWebhookDeliveries(time: Date, limit: number): Promise<WebhookDelivery[]>;
+  claimWebhookDelivery(id: number, time: Date, leaseUntil: Date): Promise<WebhookDelivery | undefined>;
+  updateWebhookDelivery(id: number, update: WebhookDeliveryUpdate): Promise<void>;
+  purgeWebhookDeliveriesBefore(time: Date): Promise<number>;
+  
+  // Notification operations; creating a second warning for the same post expiry returns undefined
+  createNotification(notification: InsertNotification): Promise<Notification | undefined>;
+  getNotifications(userId: number, options: NotificationOptions): Promise<NotificationWithDetails[]>;
+  countUnreadNotifications(userId: number): Promise<number>;
+  markNotificationsRead(userId: number, ids: number[] | undefined, time: Date): Promise<number>;
+  
+  // Audit log operations
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(limit: number): Promise<AuditLog[]>;
+  
+  // Attachment operations
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  getAttachment(id: number): Promise<Attachment | undefined>;
+  getAttachmentsByPostId(postId: number): Promise<Attachment[]>;
+  linkAttachments(ids: number[], postId: number, uploaderId: number): Promise<number>;
+  deleteAttachment(id: number): Promise<boolean>;
+  getOrphanedAttachments(before: Date): Promise<Attachment[]>;
+  
+  // Search operations
+  search(query: string, options: SearchOptions): Promise<SearchResult[]>;
   
   // Scheduled operations
-  getPostsOlderThan(hours: number): Promise<Post[]>;
+  getPostsExpiringBefore(time: Date): Promise<Post[]>;
+  publishDuePosts(time: Date): Promise<Post[]>;
+  purgeDeletedBefore(time: Date): Promise<{ posts: number; comments: number }>;
   
   // Session store
   sessionStore: SessionStore;
@@ -70,30 +335,80 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private posts: Map<number, Post>;
+  private postRevisions: Map<number, PostRevision>;
+  private attachments: Map<number, Attachment>;
   private tags: Map<number, Tag>;
   private postTags: Map<number, PostTag>;
   private comments: Map<number, Comment>;
+  private refreshTokens: Map<number, RefreshToken>;
+  private revokedTokens: Map<string, Date>;
+  private passwordResetTokens: Map<number, PasswordResetToken>;
+  private emailVerificationTokens: Map<number, EmailVerificationToken>;
+  private twoFactorSecrets: Map<number, TwoFactorSecret>;
+  private recoveryCodes: Map<number, RecoveryCode>;
+  private apiKeys: Map<number, ApiKey>;
+  private webhooks: Map<number, Webhook>;
+  private webhookDeliveries: Map<number, WebhookDelivery>;
+  private notifications: Map<number, Notification>;
+  private auditLogs: Map<number, AuditLog>;
   
   private userId: number;
   private postId: number;
+  private postRevisionId: number;
+  private attachmentId: number;
   private tagId: number;
   private postTagId: number;
   private commentId: number;
+  private refreshTokenId: number;
+  private passwordResetTokenId: number;
+  private emailVerificationTokenId: number;
+  private twoFactorSecretId: number;
+  private recoveryCodeId: number;
+  private apiKeyId: number;
+  private webhookId: number;
+  private webhookDeliveryId: number;
+  private notificationId: number;
+  private auditLogId: number;
   
   sessionStore: session.SessionStore;
   
   constructor() {
     this.users = new Map();
     this.posts = new Map();
+    this.postRevisions = new Map();
+    this.attachments = new Map();
     this.tags = new Map();
     this.postTags = new Map();
     this.comments = new Map();
+    this.refreshTokens = new Map();
+    this.revokedTokens = new Map();
+    this.passwordResetTokens = new Map();
+    this.emailVerificationTokens = new Map();
+    this.twoFactorSecrets = new Map();
+    this.recoveryCodes = new Map();
+    this.apiKeys = new Map();
+    this.webhooks = new Map();
+    this.webhookDeliveries = new Map();
+    this.notifications = new Map();
+    this.auditLogs = new Map();
     
     this.userId = 1;
     this.postId = 1;
+    this.postRevisionId = 1;
+    this.attachmentId = 1;
     this.tagId = 1;
     this.postTagId = 1;
     this.commentId = 1;
+    this.refreshTokenId = 1;
+    this.passwordResetTokenId = 1;
+    this.emailVerificationTokenId = 1;
+    this.twoFactorSecretId = 1;
+    this.recoveryCodeId = 1;
+    this.apiKeyId = 1;
+    this.webhookId = 1;
+    this.webhookDeliveryId = 1;
+    this.notificationId = 1;
+    this.auditLogId = 1;
     
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000 // prune expired entries every 24h
@@ -113,20 +428,85 @@ export class MemStorage implements IStorage {
   
   async createUser(userData: InsertUser): Promise<User> {
     const id = this.userId++;
-    const user: User = { ...userData, id };
+    const user: User = { image: null, ...userData, id, role: "user", emailVerifiedAt: null };
     this.users.set(id, user);
     return user;
   }
   
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.id - b.id);
+  }
+  
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, role };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, ...userData };
+    // A new email address has to be verified again
+    if (userData.email !== undefined && userData.email !== user.email) {
+      updatedUser.emailVerifiedAt = null;
+    }
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async verifyUserEmail(id: number, time: Date): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, emailVerifiedAt: user.emailVerifiedAt ?? time };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async getUserProfile(id: number): Promise<UserProfile | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    // Only content other visitors can see is counted
+    const postCount = Array.from(this.posts.values())
+      .filter(post => post.authorId === id && !post.deletedAt && post.status === "published")
+      .length;
+    const commentCount = Array.from(this.comments.values())
+      .filter(comment => comment.authorId === id && !comment.deletedAt)
+      .length;
+    
+    return {
+      id: user.id,
+      name: user.name,
+      image: user.image,
+      role: user.role,
+      postCount,
+      commentCount
+    };
+  }
+  
   // Post methods
   async createPost(postData: InsertPost, authorId: number): Promise<Post> {
     const id = this.postId++;
+    const createdAt = new Date();
     const post: Post = {
       id,
       title: postData.title,
       body: postData.body,
+      bodyHtml: renderMarkdown(postData.body),
+      excerpt: markdownExcerpt(postData.body),
       authorId,
-      createdAt: new Date()
+      createdAt,
+      updatedAt: createdAt,
+      status: postData.status ?? "published",
+      publishAt: postData.status === "scheduled" ? postData.publishAt ?? null : null,
+      expiresAt: resolveExpiresAt(postData.ttlHours, createdAt),
+      deletedAt: null
     };
     this.posts.set(id, post);
     
@@ -138,15 +518,18 @@ export class MemStorage implements IStorage {
     return post;
   }
   
-  async getPost(id: number): Promise<PostWithDetails | undefined> {
+  async getPost(id: number, options: LookupOptions = {}): Promise<PostWithDetails | undefined> {
     const post = this.posts.get(id);
-    if (!post) return undefined;
+    if (!post || (post.deletedAt && !options.includeDeleted)) return undefined;
+    if (post.status !== "published" && !options.includeUnpublished) return undefined;
     
     const author = this.users.get(post.authorId);
     if (!author) return undefined;
     
     const tags = await this.getTagsByPostId(id);
-    const comments = await this.getCommentsByPostId(id);
+    const commentCount = Array.from(this.comments.values())
+      .filter(comment => comment.postId === id && !comment.deletedAt)
+      .length;
     
     return {
       ...post,
@@ -155,69 +538,111 @@ export class MemStorage implements IStorage {
         name: author.name
       },
       tags: tags.map(tag => tag.name),
-      commentCount: comments.length
+      commentCount
     };
   }
   
-  async getAllPosts(): Promise<PostWithDetails[]> {
-    const posts: PostWithDetails[] = [];
-    
-    for (const post of this.posts.values()) {
-      const postWithDetails = await this.getPost(post.id);
-      if (postWithDetails) {
-        posts.push(postWithDetails);
+  async queryPosts(filter: PostFilter, page: PageOptions): Promise<PostPage> {
+    const sort = filter.sort ?? "newest";
+    const tagNames = normalizeTagNames(filter.tags ?? []);
+    
+    const commentCounts = new Map<number, number>();
+    for (const comment of Array.from(this.comments.values())) {
+      if (!comment.deletedAt) {
+        commentCounts.set(comment.postId, (commentCounts.get(comment.postId) ?? 0) + 1);
       }
     }
     
-    return posts;
-  }
-  
-  async getPostsByAuthor(authorId: number): Promise<PostWithDetails[]> {
-    const posts: PostWithDetails[] = [];
-    
-    for (const post of this.posts.values()) {
-      if (post.authorId === authorId) {
-        const postWithDetails = await this.getPost(post.id);
-        if (postWithDetails) {
-          posts.push(postWithDetails);
+    const postTagNames = (postId: number) => Array.from(this.postTags.values())
+      .filter(pt => pt.postId === postId)
+      .map(pt => this.tags.get(pt.tagId)?.name.toLowerCase());
+    
+    const newestFirst = (a: Post, b: Post) =>
+      b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id;
+    
+    // Apply the same filtering, ordering, offset and cursor rules as the SQL implementation
+    const matching = Array.from(this.posts.values())
+      .filter(post => {
+        if (post.deletedAt || post.status !== "published") return false;
+        if (filter.authorId && post.authorId !== filter.authorId) return false;
+        if (filter.createdAfter && post.createdAt < filter.createdAfter) return false;
+        if (filter.createdBefore && post.createdAt > filter.createdBefore) return false;
+        
+        if (tagNames.length > 0) {
+          const names = postTagNames(post.id);
+          const matchedTags = tagNames.filter(name => names.includes(name));
+          return filter.tagMode === "all" ? matchedTags.length === tagNames.length : matchedTags.length > 0;
         }
-      }
-    }
-    
-    return posts;
-  }
-  
-  async getPostsByTag(tagName: string): Promise<PostWithDetails[]> {
-    const tag = await this.getTagByName(tagName);
-    if (!tag) return [];
-    
-    const relevantPostTags = Array.from(this.postTags.values())
-      .filter(pt => pt.tagId === tag.id);
+        
+        return true;
+      })
+      .sort((a, b) => {
+        if (sort === "oldest") return newestFirst(b, a);
+        if (sort === "most_commented") {
+          return (commentCounts.get(b.id) ?? 0) - (commentCounts.get(a.id) ?? 0) || newestFirst(a, b);
+        }
+        return newestFirst(a, b);
+      });
+    
+    const { cursor } = page;
+    const useCursor = cursor && sort !== "most_commented";
+    const remaining = useCursor
+      ? matching.filter(post => {
+          const position = compareToCursor(post, cursor);
+          return sort === "oldest" ? position > 0 : position < 0;
+        })
+      : matching.slice(page.offset ?? 0);
+    const pagePosts = remaining.slice(0, page.limit);
     
     const posts: PostWithDetails[] = [];
     
-    for (const pt of relevantPostTags) {
-      const postWithDetails = await this.getPost(pt.postId);
+    for (const post of pagePosts) {
+      const postWithDetails = await this.getPost(post.id);
       if (postWithDetails) {
         posts.push(postWithDetails);
       }
     }
     
-    return posts;
+    const lastPost = pagePosts[pagePosts.length - 1];
+    const hasMore = remaining.length > page.limit;
+    
+    return {
+      posts,
+      totalCount: matching.length,
+      nextCursor: hasMore && sort !== "most_commented" ? { createdAt: lastPost.createdAt, id: lastPost.id } : null
+    };
   }
   
-  async updatePost(id: number, postData: Partial<InsertPost>): Promise<Post | undefined> {
+  async updatePost(id: number, postData: Partial<InsertPost>, editorId: number): Promise<Post | undefined> {
     const post = this.posts.get(id);
-    if (!post) return undefined;
+    if (!post || post.deletedAt) return undefined;
     
-    const updatedPost: Post = {
+    const now = new Date();
+    // Unpublished lifetimes are measured from createdAt so publishAs can carry them over
+    const ttlFrom = post.status === "published" ? now : post.createdAt;
+    
+    let updatedPost: Post = {
       ...post,
       ...(postData.title ? { title: postData.title } : {}),
-      ...(postData.body ? { body: postData.body } : {})
+      ...(postData.body ? { body: postData.body, bodyHtml: renderMarkdown(postData.body), excerpt: markdownExcerpt(postData.body) } : {}),
+      ...(postData.ttlHours !== undefined ? { expiresAt: resolveExpiresAt(postData.ttlHours, ttlFrom) } : {}),
+      ...(postData.status && postData.status !== "published" ? { status: postData.status } : {}),
+      ...(postData.status === "draft" ? { publishAt: null } : {}),
+      ...((postData.status ?? post.status) === "scheduled" && postData.publishAt !== undefined ? { publishAt: postData.publishAt } : {}),
+      updatedAt: now
     };
     
+    if (postData.status === "published" && post.status !== "published") {
+      updatedPost = publishAs(updatedPost, now);
+    }
+    
     this.posts.set(id, updatedPost);
     
+    // Only title and body changes are kept in the revision history
+    if (updatedPost.title !== post.title || updatedPost.body !== post.body) {
+      this.recordRevision(post, updatedPost, editorId);
+    }
+    
     // Update tags if provided
     if (postData.tags && postData.tags.length > 0) {
       await this.updatePostTags(id, postData.tags);
@@ -226,9 +651,89 @@ export class MemStorage implements IStorage {
     return updatedPost;
   }
   
+  async getUnpublishedPostsByAuthor(authorId: number): Promise<PostWithDetails[]> {
+    const unpublished = Array.from(this.posts.values())
+      .filter(post => post.authorId === authorId && post.status !== "published" && !post.deletedAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    
+    const postsWithDetails: PostWithDetails[] = [];
+    for (const post of unpublished) {
+      const postWithDetails = await this.getPost(post.id, { includeUnpublished: true });
+      if (postWithDetails) {
+        postsWithDetails.push(postWithDetails);
+      }
+    }
+    
+    return postsWithDetails;
+  }
+  
+  private recordRevision(before: Post, after: Post, editorId: number) {
+    const revisions = Array.from(this.postRevisions.values()).filter(rev => rev.postId === before.id);
+    
+    // Posts written before revisions were tracked get their original content as revision 1
+    if (revisions.length === 0) {
+      const id = this.postRevisionId++;
+      const original: PostRevision = {
+        id,
+        postId: before.id,
+        revision: 1,
+        title: before.title,
+        body: before.body,
+        editorId: before.authorId,
+        createdAt: before.updatedAt
+      };
+      this.postRevisions.set(id, original);
+      revisions.push(original);
+    }
+    
+    const id = this.postRevisionId++;
+    this.postRevisions.set(id, {
+      id,
+      postId: after.id,
+      revision: Math.max(...revisions.map(rev => rev.revision)) + 1,
+      title: after.title,
+      body: after.body,
+      editorId,
+      createdAt: after.updatedAt
+    });
+  }
+  
   async deletePost(id: number): Promise<boolean> {
-    if (!this.posts.has(id)) return false;
+    const post = this.posts.get(id);
+    if (!post || post.deletedAt) return false;
+    
+    // Move the post to the trash
+    this.posts.set(id, { ...post, deletedAt: new Date() });
+    return true;
+  }
+  
+  async restorePost(id: number): Promise<Post | undefined> {
+    const post = this.posts.get(id);
+    if (!post || !post.deletedAt) return undefined;
+    
+    const restoredPost: Post = { ...post, deletedAt: null, expiresAt: restoredExpiresAt(post, new Date()) };
+    this.posts.set(id, restoredPost);
+    return restoredPost;
+  }
+  
+  // Push back the expiry of a live post; evergreen posts have nothing to extend
+  async extendPostExpiry(id: number, expiresAt: Date): Promise<Post | undefined> {
+    const post = this.posts.get(id);
+    if (!post || post.deletedAt || !post.expiresAt) return undefined;
     
+    const extendedPost: Post = { ...post, expiresAt };
+    this.posts.set(id, extendedPost);
+    return extendedPost;
+  }
+  
+  async getDeletedPostsByAuthor(authorId: number): Promise<Post[]> {
+    return Array.from(this.posts.values())
+      .filter(post => post.authorId === authorId && post.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+  
+  // Permanently remove a post with its comments and tags
+  private purgePost(id: number): boolean {
     // Delete related comments
     for (const [commentId, comment] of this.comments.entries()) {
       if (comment.postId === id) {
@@ -243,9 +748,36 @@ export class MemStorage implements IStorage {
       }
     }
     
+    // Delete revision history
+    for (const revision of Array.from(this.postRevisions.values())) {
+      if (revision.postId === id) {
+        this.postRevisions.delete(revision.id);
+      }
+    }
+    
     return this.posts.delete(id);
   }
   
+  // Revision methods
+  async getPostRevisions(postId: number): Promise<PostRevisionWithEditor[]> {
+    return Array.from(this.postRevisions.values())
+      .filter(rev => rev.postId === postId)
+      .sort((a, b) => b.revision - a.revision)
+      .map(rev => ({
+        ...rev,
+        editor: {
+          id: rev.editorId,
+          name: this.users.get(rev.editorId)?.name ?? "Unknown"
+        }
+      }));
+  }
+  
+  async getPostRevision(postId: number, revision: number): Promise<PostRevision | undefined> {
+    return Array.from(this.postRevisions.values()).find(
+      rev => rev.postId === postId && rev.revision === revision
+    );
+  }
+  
   // Tag methods
   async createTag(tagData: InsertTag): Promise<Tag> {
     const id = this.tagId++;
@@ -334,20 +866,37 @@ export class MemStorage implements IStorage {
   }
   
   // Comment methods
-  async createComment(commentData: InsertComment, authorId: number): Promise<Comment> {
+  async createComment(commentData: InsertComment, authorId: number, parent?: Comment): Promise<Comment> {
     const id = this.commentId++;
     const comment: Comment = {
       id,
       body: commentData.body,
+      bodyHtml: renderMarkdown(commentData.body),
       authorId,
       postId: commentData.postId,
-      createdAt: new Date()
+      parentId: parent ? parent.id : null,
+      depth: parent ? parent.depth + 1 : 0,
+      createdAt: new Date(),
+      deletedAt: null
     };
     this.comments.set(id, comment);
+    
+    // Let the post's author know, unless they are commenting themselves
+    const post = this.posts.get(comment.postId);
+    if (post && post.authorId !== authorId) {
+      await this.createNotification({
+        userId: post.authorId,
+        type: "comment",
+        postId: post.id,
+        commentId: comment.id,
+        actorId: authorId
+      });
+    }
+    
     return comment;
   }
   
-  async getCommentsByPostId(postId: number): Promise<CommentWithAuthor[]> {
+  async getCommentsByPostId(postId: number): Promise<CommentThread[]> {
     const commentsWithAuthor: CommentWithAuthor[] = [];
     
     for (const comment of this.comments.values()) {
@@ -365,16 +914,33 @@ export class MemStorage implements IStorage {
       }
     }
     
-    return commentsWithAuthor;
+    commentsWithAuthor.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+    return buildCommentTree(commentsWithAuthor);
+  }
+  
+  async getCommentWithAuthor(id: number): Promise<CommentWithAuthor | undefined> {
+    const comment = this.comments.get(id);
+    if (!comment || comment.deletedAt) return undefined;
+    
+    const author = this.users.get(comment.authorId);
+    if (!author) return undefined;
+    
+    return {
+      ...comment,
+      author: {
+        id: author.id,
+        name: author.name
+      }
+    };
   }
   
   async updateComment(id: number, commentData: Partial<InsertComment>): Promise<Comment | undefined> {
     const comment = this.comments.get(id);
-    if (!comment) return undefined;
+    if (!comment || comment.deletedAt) return undefined;
     
     const updatedComment: Comment = {
       ...comment,
-      ...(commentData.body ? { body: commentData.body } : {})
+      ...(commentData.body ? { body: commentData.body, bodyHtml: renderMarkdown(commentData.body) } : {})
     };
     
     this.comments.set(id, updatedComment);
@@ -382,199 +948,928 @@ export class MemStorage implements IStorage {
   }
   
   async deleteComment(id: number): Promise<boolean> {
-    return this.comments.delete(id);
-  }
-  
-  async getComment(id: number): Promise<Comment | undefined> {
-    return this.comments.get(id);
+    const comment = this.comments.get(id);
+    if (!comment || comment.deletedAt) return false;
+    
+    // Move the comment to the trash
+    this.comments.set(id, { ...comment, deletedAt: new Date() });
+    return true;
   }
   
-  // Scheduled operations
-  async getPostsOlderThan(hours: number): Promise<Post[]> {
-    const cutoffTime = new Date();
-    cutoffTime.setHours(cutoffTime.getHours() - hours);
+  async restoreComment(id: number): Promise<Comment | undefined> {
+    const comment = this.comments.get(id);
+    if (!comment || !comment.deletedAt) return undefined;
     
-    return Array.from(this.posts.values()).filter(
-      post => post.createdAt < cutoffTime
-    );
+    const restoredComment: Comment = { ...comment, deletedAt: null };
+    this.comments.set(id, restoredComment);
+    return restoredComment;
   }
-}
-
-// Database Storage Implementation
-export class DatabaseStorage implements IStorage {
-  sessionStore: session.SessionStore;
   
-  constructor() {
-    this.sessionStore = new PostgresSessionStore({ 
-      pool, 
-      createTableIfMissing: true
-    });
+  async getComment(id: number, options: LookupOptions = {}): Promise<Comment | undefined> {
+    const comment = this.comments.get(id);
+    if (!comment || (comment.deletedAt && !options.includeDeleted)) return undefined;
+    return comment;
   }
-
-  // User methods
-  async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user;
+  
+  async getDeletedCommentsByAuthor(authorId: number): Promise<Comment[]> {
+    return Array.from(this.comments.values())
+      .filter(comment => comment.authorId === authorId && comment.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
   }
   
-  async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
-    return user;
+  // Token methods
+  async createRefreshToken(tokenData: InsertRefreshToken): Promise<RefreshToken> {
+    const id = this.refreshTokenId++;
+    const token: RefreshToken = {
+      ...tokenData,
+      id,
+      createdAt: new Date(),
+      revokedAt: null
+    };
+    this.refreshTokens.set(id, token);
+    return token;
   }
   
-  async createUser(userData: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(userData).returning();
-    return user;
+  async getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined> {
+    return Array.from(this.refreshTokens.values()).find(
+      (token) => token.tokenHash === tokenHash
+    );
   }
   
-  // Post methods
-  async createPost(postData: InsertPost, authorId: number): Promise<Post> {
-    const [post] = await db.insert(posts).values({
-      title: postData.title,
-      body: postData.body,
-      authorId
-    }).returning();
+  async revokeRefreshToken(id: number): Promise<RefreshToken | undefined> {
+    const token = this.refreshTokens.get(id);
+    if (!token || token.revokedAt) return undefined;
     
-    // Create tags and post-tag relationships
-    if (postData.tags && postData.tags.length > 0) {
-      await this.updatePostTags(post.id, postData.tags);
+    const revokedToken: RefreshToken = { ...token, revokedAt: new Date() };
+    this.refreshTokens.set(id, revokedToken);
+    return revokedToken;
+  }
+  
+  async revokeTokenFamily(familyId: string, until: Date): Promise<void> {
+    for (const token of Array.from(this.refreshTokens.values())) {
+      if (token.familyId === familyId) {
+        await this.revokeRefreshToken(token.id);
+      }
     }
-    
-    return post;
+    this.revokedTokens.set(familyId, until);
   }
   
-  async getPost(id: number): Promise<PostWithDetails | undefined> {
-    // Get the post
-    const [post] = await db.select().from(posts).where(eq(posts.id, id));
-    if (!post) return undefined;
+  async isTokenFamilyRevoked(familyId: string): Promise<boolean> {
+    const until = this.revokedTokens.get(familyId);
+    return !!until && until > new Date();
+  }
+  
+  async getActiveTokenFamilies(userId: number): Promise<string[]> {
+    const familyIds = Array.from(this.refreshTokens.values())
+      .filter(token => token.userId === userId && !token.revokedAt)
+      .map(token => token.familyId);
+    return Array.from(new Set(familyIds));
+  }
+  
+  async purgeExpiredTokens(time: Date): Promise<number> {
+    let purged = 0;
     
-    // Get the author details
-    const [author] = await db.select({
-      id: users.id,
-      name: users.name
-    }).from(users).where(eq(users.id, post.authorId));
+    for (const token of Array.from(this.refreshTokens.values())) {
+      if (token.expiresAt < time && this.refreshTokens.delete(token.id)) purged++;
+    }
     
-    if (!author) return undefined;
+    for (const [familyId, until] of Array.from(this.revokedTokens.entries())) {
+      if (until < time && this.revokedTokens.delete(familyId)) purged++;
+    }
     
-    // Get tags for the post
-    const tags = await this.getTagsByPostId(id);
+    for (const token of Array.from(this.passwordResetTokens.values())) {
+      if ((token.expiresAt < time || token.usedAt) && this.passwordResetTokens.delete(token.id)) purged++;
+    }
     
-    // Get comment count
-    const [commentCountResult] = await db
-      .select({ count: count() })
-      .from(comments)
-      .where(eq(comments.postId, id));
+    for (const token of Array.from(this.emailVerificationTokens.values())) {
+      if ((token.expiresAt < time || token.usedAt) && this.emailVerificationTokens.delete(token.id)) purged++;
+    }
     
-    return {
-      ...post,
-      author,
-      tags: tags.map(tag => tag.name),
-      commentCount: Number(commentCountResult.count)
-    };
+    return purged;
   }
   
-  async getAllPosts(): Promise<PostWithDetails[]> {
-    const allPosts = await db
-      .select({
-        id: posts.id,
-        title: posts.title,
-        body: posts.body,
-        authorId: posts.authorId,
-        createdAt: posts.createdAt,
-        authorName: users.name
-      })
-      .from(posts)
-      .leftJoin(users, eq(posts.authorId, users.id))
-      .orderBy(desc(posts.createdAt));
+  // Password reset methods
+  async createPasswordResetToken(tokenData: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    // A new token replaces any the user still has outstanding
+    for (const token of Array.from(this.passwordResetTokens.values())) {
+      if (token.userId === tokenData.userId) this.passwordResetTokens.delete(token.id);
+    }
     
-    const postsWithDetails: PostWithDetails[] = [];
+    const id = this.passwordResetTokenId++;
+    const token: PasswordResetToken = {
+      ...tokenData,
+      id,
+      createdAt: new Date(),
+      usedAt: null
+    };
+    this.passwordResetTokens.set(id, token);
+    return token;
+  }
+  
+  async consumePasswordResetToken(tokenHash: string, time: Date): Promise<PasswordResetToken | undefined> {
+    const token = Array.from(this.passwordResetTokens.values()).find(
+      (token) => token.tokenHash === tokenHash
+    );
+    if (!token || token.usedAt || token.expiresAt <= time) return undefined;
     
-    for (const post of allPosts) {
-      const postWithDetails = await this.getPost(post.id);
-      if (postWithDetails) {
-        postsWithDetails.push(postWithDetails);
-      }
+    const usedToken = { ...token, usedAt: time };
+    this.passwordResetTokens.set(token.id, usedToken);
+    return usedToken;
+  }
+  
+  // Email verification methods
+  async createEmailVerificationToken(tokenData: InsertEmailVerificationToken): Promise<EmailVerificationToken> {
+    // A new token replaces any the user still has outstanding
+    for (const token of Array.from(this.emailVerificationTokens.values())) {
+      if (token.userId === tokenData.userId) this.emailVerificationTokens.delete(token.id);
     }
     
-    return postsWithDetails;
+    const id = this.emailVerificationTokenId++;
+    const token: EmailVerificationToken = {
+      ...tokenData,
+      id,
+      createdAt: new Date(),
+      usedAt: null
+    };
+    this.emailVerificationTokens.set(id, token);
+    return token;
   }
   
-  async getPostsByAuthor(authorId: number): Promise<PostWithDetails[]> {
-    const authorPosts = await db
-      .select({
-        id: posts.id,
-        title: posts.title,
-        body: posts.body,
-        authorId: posts.authorId,
-        createdAt: posts.createdAt
-      })
-      .from(posts)
-      .where(eq(posts.authorId, authorId))
-      .orderBy(desc(posts.createdAt));
+  async consumeEmailVerificationToken(tokenHash: string, time: Date): Promise<EmailVerificationToken | undefined> {
+    const token = Array.from(this.emailVerificationTokens.values()).find(
+      (token) => token.tokenHash === tokenHash
+    );
+    if (!token || token.usedAt || token.expiresAt <= time) return undefined;
     
-    const postsWithDetails: PostWithDetails[] = [];
+    const usedToken = { ...token, usedAt: time };
+    this.emailVerificationTokens.set(token.id, usedToken);
+    return usedToken;
+  }
+  
+  // Two-factor authentication methods
+  async getTwoFactorSecret(userId: number): Promise<TwoFactorSecret | undefined> {
+    return Array.from(this.twoFactorSecrets.values()).find(
+      (twoFactor) => twoFactor.userId === userId
+    );
+  }
+  
+  async saveTwoFactorSecret(userId: number, secret: string): Promise<TwoFactorSecret> {
+    // Starting enrollment again replaces any pending secret
+    const existing = await this.getTwoFactorSecret(userId);
+    const twoFactor: TwoFactorSecret = {
+      id: existing?.id ?? this.twoFactorSecretId++,
+      userId,
+      secret,
+      enabledAt: null,
+      lastUsedStep: null,
+      createdAt: new Date()
+    };
+    this.twoFactorSecrets.set(twoFactor.id, twoFactor);
+    return twoFactor;
+  }
+  
+  async enableTwoFactor(userId: number, time: Date): Promise<TwoFactorSecret | undefined> {
+    const twoFactor = await this.getTwoFactorSecret(userId);
+    if (!twoFactor) return undefined;
     
-    for (const post of authorPosts) {
-      const postWithDetails = await this.getPost(post.id);
-      if (postWithDetails) {
-        postsWithDetails.push(postWithDetails);
+    const enabled = { ...twoFactor, enabledAt: twoFactor.enabledAt ?? time };
+    this.twoFactorSecrets.set(twoFactor.id, enabled);
+    return enabled;
+  }
+  
+  async useTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    const twoFactor = await this.getTwoFactorSecret(userId);
+    if (!twoFactor || (twoFactor.lastUsedStep !== null && twoFactor.lastUsedStep >= step)) return false;
+    
+    this.twoFactorSecrets.set(twoFactor.id, { ...twoFactor, lastUsedStep: step });
+    return true;
+  }
+  
+  async deleteTwoFactor(userId: number): Promise<void> {
+    for (const twoFactor of Array.from(this.twoFactorSecrets.values())) {
+      if (twoFactor.userId === userId) this.twoFactorSecrets.delete(twoFactor.id);
+    }
+    await this.replaceRecoveryCodes(userId, []);
+  }
+  
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    for (const code of Array.from(this.recoveryCodes.values())) {
+      if (code.userId === userId) this.recoveryCodes.delete(code.id);
+    }
+    
+    for (const codeHash of codeHashes) {
+      const id = this.recoveryCodeId++;
+      this.recoveryCodes.set(id, { id, userId, codeHash, usedAt: null });
+    }
+  }
+  
+  async consumeRecoveryCode(userId: number, codeHash: string, time: Date): Promise<boolean> {
+    const code = Array.from(this.recoveryCodes.values()).find(
+      (code) => code.userId === userId && code.codeHash === codeHash && !code.usedAt
+    );
+    if (!code) return false;
+    
+    this.recoveryCodes.set(code.id, { ...code, usedAt: time });
+    return true;
+  }
+  
+  async countRecoveryCodes(userId: number): Promise<number> {
+    return Array.from(this.recoveryCodes.values())
+      .filter(code => code.userId === userId && !code.usedAt)
+      .length;
+  }
+  
+  // API key methods
+  async createApiKey(keyData: InsertApiKey): Promise<ApiKey> {
+    const id = this.apiKeyId++;
+    const key: ApiKey = {
+      scope: "read",
+      ...keyData,
+      id,
+      lastUsedAt: null,
+      createdAt: new Date(),
+      revokedAt: null
+    };
+    this.apiKeys.set(id, key);
+    return key;
+  }
+  
+  async getApiKeysByUser(userId: number): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter(key => key.userId === userId && !key.revokedAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find(
+      (key) => key.keyHash === keyHash && !key.revokedAt
+    );
+  }
+  
+  async revokeApiKey(id: number, userId: number, time: Date): Promise<ApiKey | undefined> {
+    const key = this.apiKeys.get(id);
+    if (!key || key.userId !== userId || key.revokedAt) return undefined;
+    
+    const revoked = { ...key, revokedAt: time };
+    this.apiKeys.set(id, revoked);
+    return revoked;
+  }
+  
+  async touchApiKey(id: number, time: Date): Promise<void> {
+    const key = this.apiKeys.get(id);
+    if (key) this.apiKeys.set(id, { ...key, lastUsedAt: time });
+  }
+  
+  // Webhook methods
+  async createWebhook(webhookData: WebhookInput, userId: number, secret: string): Promise<Webhook> {
+    const id = this.webhookId++;
+    const now = new Date();
+    const webhook: Webhook = {
+      active: true,
+      ...webhookData,
+      id,
+      userId,
+      secret,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.webhooks.set(id, webhook);
+    return webhook;
+  }
+  
+  async getWebhooks(): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values()).sort((a, b) => a.id - b.id);
+  }
+  
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    return this.webhooks.get(id);
+  }
+  
+  async updateWebhook(id: number, update: Partial<WebhookInput>): Promise<Webhook | undefined> {
+    const webhook = this.webhooks.get(id);
+    if (!webhook) return undefined;
+    
+    const updated = { ...webhook, ...update, updatedAt: new Date() };
+    this.webhooks.set(id, updated);
+    return updated;
+  }
+  
+  async deleteWebhook(id: number): Promise<boolean> {
+    for (const delivery of Array.from(this.webhookDeliveries.values())) {
+      if (delivery.webhookId === id) this.webhookDeliveries.delete(delivery.id);
+    }
+    return this.webhooks.delete(id);
+  }
+  
+  async getWebhooksForEvent(event: WebhookEvent): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values()).filter(
+      (webhook) => webhook.active && webhook.events.includes(event)
+    );
+  }
+  
+  async createWebhookDelivery(deliveryData: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const id = this.webhookDeliveryId++;
+    const delivery: WebhookDelivery = {
+      nextAttemptAt: null,
+      ...deliveryData,
+      id,
+      status: "pending",
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      createdAt: new Date(),
+      deliveredAt: null
+    };
+    this.webhookDeliveries.set(id, delivery);
+    return delivery;
+  }
+  
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.webhookId === webhookId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async getDueWebhookDeliveries(time: Date, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.status === "pending" && delivery.nextAttemptAt && delivery.nextAttemptAt <= time)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime())
+      .slice(0, limit);
+  }
+  
+  async claimWebhookDelivery(id: number, time: Date, leaseUntil: Date): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (!delivery || delivery.status !== "pending" || !delivery.nextAttemptAt || delivery.nextAttemptAt > time) {
+      return undefined;
+    }
+    
+    const claimed = { ...delivery, nextAttemptAt: leaseUntil };
+    this.webhookDeliveries.set(id, claimed);
+    return claimed;
+  }
+  
+  async updateWebhookDelivery(id: number, update: WebhookDeliveryUpdate): Promise<void> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (delivery) this.webhookDeliveries.set(id, { ...delivery, ...update });
+  }
+  
+  async purgeWebhookDeliveriesBefore(time: Date): Promise<number> {
+    let purged = 0;
+    
+    for (const delivery of Array.from(this.webhookDeliveries.values())) {
+      if (delivery.status !== "pending" && delivery.createdAt < time && this.webhookDeliveries.delete(delivery.id)) purged++;
+    }
+    
+    return purged;
+  }
+  
+  // Notification methods
+  async createNotification(notificationData: InsertNotification): Promise<Notification | undefined> {
+    const { postExpiresAt } = notificationData;
+    if (postExpiresAt && Array.from(this.notifications.values()).some(
+      (notification) => notification.postId === notificationData.postId &&
+        notification.postExpiresAt?.getTime() === postExpiresAt.getTime()
+    )) {
+      return undefined;
+    }
+    
+    const id = this.notificationId++;
+    const notification: Notification = {
+      commentId: null,
+      actorId: null,
+      postExpiresAt: null,
+      ...notificationData,
+      id,
+      readAt: null,
+      createdAt: new Date()
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+  
+  async getNotifications(userId: number, options: NotificationOptions): Promise<NotificationWithDetails[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && (!options.unreadOnly || !notification.readAt))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, options.limit)
+      .map(notification => {
+        const actor = notification.actorId !== null ? this.users.get(notification.actorId) : undefined;
+        const post = this.posts.get(notification.postId);
+        return {
+          ...notification,
+          actor: actor ? { id: actor.id, name: actor.name } : null,
+          post: post ? { id: post.id, title: post.title } : null
+        };
+      });
+  }
+  
+  async countUnreadNotifications(userId: number): Promise<number> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && !notification.readAt)
+      .length;
+  }
+  
+  async markNotificationsRead(userId: number, ids: number[] | undefined, time: Date): Promise<number> {
+    let marked = 0;
+    
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId === userId && !notification.readAt && (!ids || ids.includes(notification.id))) {
+        this.notifications.set(notification.id, { ...notification, readAt: time });
+        marked++;
       }
     }
     
-    return postsWithDetails;
+    return marked;
   }
   
-  async getPostsByTag(tagName: string): Promise<PostWithDetails[]> {
-    // Get the tag
-    const [tag] = await db
-      .select()
-      .from(tags)
-      .where(eq(tags.name, tagName));
+  // Audit log methods
+  async createAuditLog(entryData: InsertAuditLog): Promise<AuditLog> {
+    const id = this.auditLogId++;
+    const entry: AuditLog = {
+      userId: null,
+      ip: null,
+      details: null,
+      ...entryData,
+      id,
+      createdAt: new Date()
+    };
+    this.auditLogs.set(id, entry);
+    return entry;
+  }
+  
+  async getAuditLogs(limit: number): Promise<AuditLog[]> {
+    return Array.from(this.auditLogs.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  // Attachment methods
+  async createAttachment(attachmentData: InsertAttachment): Promise<Attachment> {
+    const id = this.attachmentId++;
+    const attachment: Attachment = {
+      ...attachmentData,
+      id,
+      postId: null,
+      createdAt: new Date()
+    };
+    this.attachments.set(id, attachment);
+    return attachment;
+  }
+  
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    return this.attachments.get(id);
+  }
+  
+  async getAttachmentsByPostId(postId: number): Promise<Attachment[]> {
+    return Array.from(this.attachments.values())
+      .filter(attachment => attachment.postId === postId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async linkAttachments(ids: number[], postId: number, uploaderId: number): Promise<number> {
+    let linked = 0;
+    
+    for (const id of ids) {
+      const attachment = this.attachments.get(id);
+      if (attachment && attachment.postId === null && attachment.uploaderId === uploaderId) {
+        this.attachments.set(id, { ...attachment, postId });
+        linked++;
+      }
+    }
     
-    if (!tag) return [];
+    return linked;
+  }
+  
+  async deleteAttachment(id: number): Promise<boolean> {
+    return this.attachments.delete(id);
+  }
+  
+  async getOrphanedAttachments(before: Date): Promise<Attachment[]> {
+    return Array.from(this.attachments.values()).filter(attachment =>
+      attachment.postId === null
+        ? attachment.createdAt < before
+        : !this.posts.has(attachment.postId)
+    );
+  }
+  
+  // Search methods
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(term => term !== "");
+    if (terms.length === 0) return [];
+    
+    // Every term must appear; title matches count double, like the weighted tsvector
+    const countMatches = (text: string) => terms.reduce(
+      (total, term) => total + text.toLowerCase().split(term).length - 1, 0
+    );
+    const matchesAll = (text: string) => terms.every(term => text.toLowerCase().includes(term));
     
-    // Get post IDs with this tag
-    const postIdsWithTag = await db
-      .select({
-        postId: postTags.postId
+    const results: SearchResult[] = [];
+    
+    for (const post of Array.from(this.posts.values())) {
+      if (post.deletedAt || post.status !== "published") continue;
+      if (options.authorId && post.authorId !== options.authorId) continue;
+      if (!matchesAll(`${post.title} ${post.body}`)) continue;
+      
+      results.push({
+        type: "post",
+        id: post.id,
+        postId: post.id,
+        title: post.title,
+        snippet: highlightSnippet(post.body, terms),
+        rank: countMatches(post.title) * 2 + countMatches(post.body),
+        createdAt: post.createdAt
+      });
+    }
+    
+    for (const comment of Array.from(this.comments.values())) {
+      const post = this.posts.get(comment.postId);
+      if (comment.deletedAt || !post || post.deletedAt || post.status !== "published") continue;
+      if (options.authorId && comment.authorId !== options.authorId) continue;
+      if (!matchesAll(comment.body)) continue;
+      
+      results.push({
+        type: "comment",
+        id: comment.id,
+        postId: post.id,
+        title: post.title,
+        snippet: highlightSnippet(comment.body, terms),
+        rank: countMatches(comment.body),
+        createdAt: comment.createdAt
+      });
+    }
+    
+    return results
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, options.limit);
+  }
+  
+  // Scheduled operations
+  async getPostsExpiringBefore(time: Date): Promise<Post[]> {
+    return Array.from(this.posts.values()).filter(
+      post => !post.deletedAt && post.status === "published" && post.expiresAt !== null && post.expiresAt < time
+    );
+  }
+  
+  async publishDuePosts(time: Date): Promise<Post[]> {
+    const published: Post[] = [];
+    
+    for (const post of Array.from(this.posts.values())) {
+      if (post.status === "scheduled" && !post.deletedAt && post.publishAt && post.publishAt <= time) {
+        const publishedPost = publishAs(post, post.publishAt);
+        this.posts.set(post.id, publishedPost);
+        published.push(publishedPost);
+      }
+    }
+    
+    return published;
+  }
+  
+  async purgeDeletedBefore(time: Date): Promise<{ posts: number; comments: number }> {
+    let purgedPosts = 0;
+    let purgedComments = 0;
+    
+    for (const post of Array.from(this.posts.values())) {
+      if (post.deletedAt && post.deletedAt < time && this.purgePost(post.id)) {
+        purgedPosts++;
+      }
+    }
+    
+    for (const comment of Array.from(this.comments.values())) {
+      if (comment.deletedAt && comment.deletedAt < time && this.comments.delete(comment.id)) {
+        purgedComments++;
+      }
+    }
+    
+    return { posts: purgedPosts, comments: purgedComments };
+  }
+}
+
+// Database Storage Implementation
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.SessionStore;
+  
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({ 
+      pool, 
+      createTableIfMissing: true
+    });
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+  
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+  
+  async createUser(userData: InsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(userData).returning();
+    return user;
+  }
+  
+  async getAllUsers(): Promise<User[]> {
+    return db.select().from(users).orderBy(asc(users.id));
+  }
+  
+  async updateUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const [user] = await db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return user;
+  }
+  
+  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({
+        ...userData,
+        // A new email address has to be verified again
+        ...(userData.email !== undefined && {
+          emailVerifiedAt: sql`CASE WHEN ${users.email} = ${userData.email} THEN ${users.emailVerifiedAt} END`
+        })
       })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+  
+  async verifyUserEmail(id: number, time: Date): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ emailVerifiedAt: sql`coalesce(${users.emailVerifiedAt}, ${time})` })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+  
+  async getUserProfile(id: number): Promise<UserProfile | undefined> {
+    const [user] = await db
+      .select({ id: users.id, name: users.name, image: users.image, role: users.role })
+      .from(users)
+      .where(eq(users.id, id));
+    if (!user) return undefined;
+    
+    // Only content other visitors can see is counted
+    const [postCountResult] = await db
+      .select({ count: count() })
+      .from(posts)
+      .where(and(eq(posts.authorId, id), isNull(posts.deletedAt), eq(posts.status, "published")));
+    
+    const [commentCountResult] = await db
+      .select({ count: count() })
+      .from(comments)
+      .where(and(eq(comments.authorId, id), isNull(comments.deletedAt)));
+    
+    return {
+      ...user,
+      postCount: Number(postCountResult.count),
+      commentCount: Number(commentCountResult.count)
+    };
+  }
+  
+  // Post methods
+  async createPost(postData: InsertPost, authorId: number): Promise<Post> {
+    // Set the timestamps here rather than with NOW(): Postgres keeps microseconds, but
+    // pagination cursors round-trip through a millisecond-precision Date
+    const createdAt = new Date();
+    const [post] = await db.insert(posts).values({
+      title: postData.title,
+      body: postData.body,
+      bodyHtml: renderMarkdown(postData.body),
+      excerpt: markdownExcerpt(postData.body),
+      authorId,
+      createdAt,
+      updatedAt: createdAt,
+      status: postData.status ?? "published",
+      publishAt: postData.status === "scheduled" ? postData.publishAt ?? null : null,
+      expiresAt: resolveExpiresAt(postData.ttlHours, createdAt)
+    }).returning(postColumns);
+    
+    // Create tags and post-tag relationships
+    if (postData.tags && postData.tags.length > 0) {
+      await this.updatePostTags(post.id, postData.tags);
+    }
+    
+    return post;
+  }
+  
+  async getPost(id: number, options: LookupOptions = {}): Promise<PostWithDetails | undefined> {
+    // Get the post
+    const [post] = await db
+      .select(postColumns)
+      .from(posts)
+      .where(and(
+        eq(posts.id, id),
+        options.includeDeleted ? undefined : isNull(posts.deletedAt),
+        options.includeUnpublished ? undefined : eq(posts.status, "published")
+      ));
+    if (!post) return undefined;
+    
+    // Get the author details
+    const [author] = await db.select({
+      id: users.id,
+      name: users.name
+    }).from(users).where(eq(users.id, post.authorId));
+    
+    if (!author) return undefined;
+    
+    // Get tags for the post
+    const tags = await this.getTagsByPostId(id);
+    
+    // Get comment count
+    const [commentCountResult] = await db
+      .select({ count: count() })
+      .from(comments)
+      .where(and(eq(comments.postId, id), isNull(comments.deletedAt)));
+    
+    return {
+      ...post,
+      author,
+      tags: tags.map(tag => tag.name),
+      commentCount: Number(commentCountResult.count)
+    };
+  }
+  
+  async queryPosts(filter: PostFilter, page: PageOptions): Promise<PostPage> {
+    const sort = filter.sort ?? "newest";
+    const tagNames = normalizeTagNames(filter.tags ?? []);
+    
+    // Match posts through the post_tags junction; "all" requires every tag to be present
+    let tagCondition: SQL | undefined;
+    if (tagNames.length > 0) {
+      const taggedPostIds = db
+        .select({ postId: postTags.postId })
+        .from(postTags)
+        .innerJoin(tags, eq(postTags.tagId, tags.id))
+        .where(inArray(sql`LOWER(${tags.name})`, tagNames))
+        .groupBy(postTags.postId)
+        .having(filter.tagMode === "all"
+          ? sql`COUNT(DISTINCT ${postTags.tagId}) = ${tagNames.length}`
+          : undefined);
+      
+      tagCondition = inArray(posts.id, taggedPostIds);
+    }
+    
+    const condition = and(
+      isNull(posts.deletedAt),
+      eq(posts.status, "published"),
+      filter.authorId ? eq(posts.authorId, filter.authorId) : undefined,
+      filter.createdAfter ? gte(posts.createdAt, filter.createdAfter) : undefined,
+      filter.createdBefore ? lte(posts.createdAt, filter.createdBefore) : undefined,
+      tagCondition
+    );
+    
+    const commentCount = sql`(
+      SELECT COUNT(*) FROM ${comments}
+      WHERE ${comments.postId} = ${posts.id} AND ${comments.deletedAt} IS NULL
+    )`;
+    
+    const orderBy = sort === "oldest"
+      ? [asc(posts.createdAt), asc(posts.id)]
+      : sort === "most_commented"
+        ? [desc(commentCount), desc(posts.createdAt), desc(posts.id)]
+        : [desc(posts.createdAt), desc(posts.id)];
+    
+    // Keyset pagination on (created_at, id) for the date orderings
+    const { cursor } = page;
+    const useCursor = cursor && sort !== "most_commented";
+    const cursorCondition = !useCursor
+      ? undefined
+      : sort === "oldest"
+        ? or(
+            gt(posts.createdAt, cursor.createdAt),
+            and(eq(posts.createdAt, cursor.createdAt), gt(posts.id, cursor.id))
+          )
+        : or(
+            lt(posts.createdAt, cursor.createdAt),
+            and(eq(posts.createdAt, cursor.createdAt), lt(posts.id, cursor.id))
+          );
+    
+    // Fetch one extra row to find out whether another page exists
+    const rows = await db
+      .select(postColumns)
+      .from(posts)
+      .where(and(condition, cursorCondition))
+      .orderBy(...orderBy)
+      .limit(page.limit + 1)
+      .offset(useCursor ? 0 : page.offset ?? 0);
+    
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(posts)
+      .where(condition);
+    
+    const pagePosts = rows.slice(0, page.limit);
+    const lastPost = pagePosts[pagePosts.length - 1];
+    const hasMore = rows.length > page.limit;
+    
+    return {
+      posts: await this.withDetails(pagePosts),
+      totalCount: Number(totalResult.count),
+      nextCursor: hasMore && sort !== "most_commented" ? { createdAt: lastPost.createdAt, id: lastPost.id } : null
+    };
+  }
+  
+  // Load authors, tags and comment counts for a page of posts in three queries
+  private async withDetails(pagePosts: Post[]): Promise<PostWithDetails[]> {
+    if (pagePosts.length === 0) return [];
+    
+    const postIds = pagePosts.map(post => post.id);
+    const authorIds = Array.from(new Set(pagePosts.map(post => post.authorId)));
+    
+    const authors = await db
+      .select({ id: users.id, name: users.name })
+      .from(users)
+      .where(inArray(users.id, authorIds));
+    
+    const postTagRows = await db
+      .select({ postId: postTags.postId, name: tags.name })
       .from(postTags)
-      .where(eq(postTags.tagId, tag.id));
+      .innerJoin(tags, eq(postTags.tagId, tags.id))
+      .where(inArray(postTags.postId, postIds));
     
-    const postIds = postIdsWithTag.map(pt => pt.postId);
+    const commentCounts = await db
+      .select({ postId: comments.postId, count: count() })
+      .from(comments)
+      .where(and(inArray(comments.postId, postIds), isNull(comments.deletedAt)))
+      .groupBy(comments.postId);
     
-    // Get posts with details
     const postsWithDetails: PostWithDetails[] = [];
     
-    for (const postId of postIds) {
-      const postWithDetails = await this.getPost(postId);
-      if (postWithDetails) {
-        postsWithDetails.push(postWithDetails);
-      }
+    for (const post of pagePosts) {
+      const author = authors.find(a => a.id === post.authorId);
+      if (!author) continue;
+      
+      postsWithDetails.push({
+        ...post,
+        author,
+        tags: postTagRows.filter(pt => pt.postId === post.id).map(pt => pt.name),
+        commentCount: Number(commentCounts.find(c => c.postId === post.id)?.count ?? 0)
+      });
     }
     
     return postsWithDetails;
   }
   
-  async updatePost(id: number, postData: Partial<InsertPost>): Promise<Post | undefined> {
+  async updatePost(id: number, postData: Partial<InsertPost>, editorId: number): Promise<Post | undefined> {
+    const [post] = await db
+      .select(postColumns)
+      .from(posts)
+      .where(and(eq(posts.id, id), isNull(posts.deletedAt)));
+    
+    if (!post) return undefined;
+    
+    const now = new Date();
+    // Unpublished lifetimes are measured from createdAt so publishAs can carry them over
+    const ttlFrom = post.status === "published" ? now : post.createdAt;
+    
     // Update post data
     const updateData: Record<string, any> = {};
     if (postData.title) updateData.title = postData.title;
-    if (postData.body) updateData.body = postData.body;
+    if (postData.body) {
+      updateData.body = postData.body;
+      updateData.bodyHtml = renderMarkdown(postData.body);
+      updateData.excerpt = markdownExcerpt(postData.body);
+    }
+    if (postData.ttlHours !== undefined) updateData.expiresAt = resolveExpiresAt(postData.ttlHours, ttlFrom);
+    if (postData.status === "draft") {
+      updateData.status = "draft";
+      updateData.publishAt = null;
+    }
+    if (postData.status === "scheduled") updateData.status = "scheduled";
+    if ((postData.status ?? post.status) === "scheduled" && postData.publishAt !== undefined) {
+      updateData.publishAt = postData.publishAt;
+    }
+    if (postData.status === "published" && post.status !== "published") {
+      const { status, publishAt, createdAt, expiresAt } = publishAs(
+        { ...post, expiresAt: updateData.expiresAt !== undefined ? updateData.expiresAt : post.expiresAt },
+        now
+      );
+      Object.assign(updateData, { status, publishAt, createdAt, expiresAt });
+    }
     
-    if (Object.keys(updateData).length === 0) {
-      const [post] = await db.select().from(posts).where(eq(posts.id, id));
+    if (Object.keys(updateData).length === 0 && !(postData.tags && postData.tags.length > 0)) {
       return post;
     }
     
+    updateData.updatedAt = now;
+    
     const [updatedPost] = await db
       .update(posts)
       .set(updateData)
-      .where(eq(posts.id, id))
-      .returning();
+      .where(and(eq(posts.id, id), isNull(posts.deletedAt)))
+      .returning(postColumns);
     
     if (!updatedPost) return undefined;
     
+    // Only title and body changes are kept in the revision history
+    if (updatedPost.title !== post.title || updatedPost.body !== post.body) {
+      await this.recordRevision(post, updatedPost, editorId);
+    }
+    
     // Update tags if provided
     if (postData.tags && postData.tags.length > 0) {
       await this.updatePostTags(id, postData.tags);
@@ -584,21 +1879,142 @@ export class DatabaseStorage implements IStorage {
   }
   
   async deletePost(id: number): Promise<boolean> {
+    // Move the post to the trash
+    const [deletedPost] = await db
+      .update(posts)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(posts.id, id), isNull(posts.deletedAt)))
+      .returning(postColumns);
+    
+    return !!deletedPost;
+  }
+  
+  async restorePost(id: number): Promise<Post | undefined> {
+    const [post] = await db
+      .select(postColumns)
+      .from(posts)
+      .where(and(eq(posts.id, id), isNotNull(posts.deletedAt)));
+    
+    if (!post) return undefined;
+    
+    const [restoredPost] = await db
+      .update(posts)
+      .set({ deletedAt: null, expiresAt: restoredExpiresAt(post, new Date()) })
+      .where(and(eq(posts.id, id), isNotNull(posts.deletedAt)))
+      .returning(postColumns);
+    
+    return restoredPost;
+  }
+  
+  // Push back the expiry of a live post; evergreen posts have nothing to extend
+  async extendPostExpiry(id: number, expiresAt: Date): Promise<Post | undefined> {
+    const [extendedPost] = await db
+      .update(posts)
+      .set({ expiresAt })
+      .where(and(eq(posts.id, id), isNull(posts.deletedAt), isNotNull(posts.expiresAt)))
+      .returning(postColumns);
+    
+    return extendedPost;
+  }
+  
+  async getDeletedPostsByAuthor(authorId: number): Promise<Post[]> {
+    return await db
+      .select(postColumns)
+      .from(posts)
+      .where(and(eq(posts.authorId, authorId), isNotNull(posts.deletedAt)))
+      .orderBy(desc(posts.deletedAt));
+  }
+  
+  async getUnpublishedPostsByAuthor(authorId: number): Promise<PostWithDetails[]> {
+    const unpublished = await db
+      .select(postColumns)
+      .from(posts)
+      .where(and(eq(posts.authorId, authorId), ne(posts.status, "published"), isNull(posts.deletedAt)))
+      .orderBy(desc(posts.createdAt));
+    
+    return this.withDetails(unpublished);
+  }
+  
+  // Permanently remove a post with its comments and tags
+  private async purgePost(id: number): Promise<boolean> {
     // Delete related comments
     await db.delete(comments).where(eq(comments.postId, id));
     
     // Delete post-tag relationships
     await db.delete(postTags).where(eq(postTags.postId, id));
     
+    // Delete revision history
+    await db.delete(postRevisions).where(eq(postRevisions.postId, id));
+    
     // Delete the post
     const [deletedPost] = await db
       .delete(posts)
       .where(eq(posts.id, id))
-      .returning();
+      .returning(postColumns);
     
     return !!deletedPost;
   }
   
+  // Revision methods
+  async getPostRevisions(postId: number): Promise<PostRevisionWithEditor[]> {
+    const revisionsData = await db
+      .select({
+        ...getTableColumns(postRevisions),
+        editorName: users.name
+      })
+      .from(postRevisions)
+      .innerJoin(users, eq(postRevisions.editorId, users.id))
+      .where(eq(postRevisions.postId, postId))
+      .orderBy(desc(postRevisions.revision));
+    
+    return revisionsData.map(({ editorName, ...revision }) => ({
+      ...revision,
+      editor: {
+        id: revision.editorId,
+        name: editorName
+      }
+    }));
+  }
+  
+  async getPostRevision(postId: number, revision: number): Promise<PostRevision | undefined> {
+    const [postRevision] = await db
+      .select()
+      .from(postRevisions)
+      .where(and(eq(postRevisions.postId, postId), eq(postRevisions.revision, revision)));
+    return postRevision;
+  }
+  
+  private async recordRevision(before: Post, after: Post, editorId: number): Promise<void> {
+    const [latest] = await db
+      .select({ revision: postRevisions.revision })
+      .from(postRevisions)
+      .where(eq(postRevisions.postId, before.id))
+      .orderBy(desc(postRevisions.revision))
+      .limit(1);
+    
+    // Posts written before revisions were tracked get their original content as revision 1
+    let revision = latest?.revision ?? 0;
+    if (!latest) {
+      await db.insert(postRevisions).values({
+        postId: before.id,
+        revision: ++revision,
+        title: before.title,
+        body: before.body,
+        editorId: before.authorId,
+        createdAt: before.updatedAt
+      });
+    }
+    
+    await db.insert(postRevisions).values({
+      postId: after.id,
+      revision: revision + 1,
+      title: after.title,
+      body: after.body,
+      editorId,
+      createdAt: after.updatedAt
+    });
+  }
+  
   // Tag methods
   async createTag(tagData: InsertTag): Promise<Tag> {
     const [tag] = await db.insert(tags).values(tagData).returning();
@@ -704,85 +2120,693 @@ export class DatabaseStorage implements IStorage {
   }
   
   // Comment methods
-  async createComment(commentData: InsertComment, authorId: number): Promise<Comment> {
+  async createComment(commentData: InsertComment, authorId: number, parent?: Comment): Promise<Comment> {
     const [comment] = await db
       .insert(comments)
       .values({
         body: commentData.body,
+        bodyHtml: renderMarkdown(commentData.body),
         authorId,
-        postId: commentData.postId
+        postId: commentData.postId,
+        parentId: parent ? parent.id : null,
+        depth: parent ? parent.depth + 1 : 0
       })
-      .returning();
+      .returning(commentColumns);
+    
+    // Let the post's author know, unless they are commenting themselves
+    const [post] = await db
+      .select({ authorId: posts.authorId })
+      .from(posts)
+      .where(eq(posts.id, comment.postId));
+    if (post && post.authorId !== authorId) {
+      await this.createNotification({
+        userId: post.authorId,
+        type: "comment",
+        postId: comment.postId,
+        commentId: comment.id,
+        actorId: authorId
+      });
+    }
     
     return comment;
   }
   
-  async getCommentsByPostId(postId: number): Promise<CommentWithAuthor[]> {
+  async getCommentsByPostId(postId: number): Promise<CommentThread[]> {
     const commentsData = await db
       .select({
-        id: comments.id,
-        body: comments.body,
-        authorId: comments.authorId,
-        postId: comments.postId,
-        createdAt: comments.createdAt,
+        ...commentColumns,
         authorName: users.name
       })
       .from(comments)
-      .leftJoin(users, eq(comments.authorId, users.id))
+      .innerJoin(users, eq(comments.authorId, users.id))
       .where(eq(comments.postId, postId))
-      .orderBy(desc(comments.createdAt));
-    
-    return commentsData.map(comment => ({
-      id: comment.id,
-      body: comment.body,
-      authorId: comment.authorId,
-      postId: comment.postId,
-      createdAt: comment.createdAt,
+      .orderBy(asc(comments.createdAt), asc(comments.id));
+    
+    return buildCommentTree(commentsData.map(({ authorName, ...comment }) => ({
+      ...comment,
       author: {
         id: comment.authorId,
-        name: comment.authorName
+        name: authorName
       }
-    }));
+    })));
+  }
+  
+  async getCommentWithAuthor(id: number): Promise<CommentWithAuthor | undefined> {
+    const [commentData] = await db
+      .select({
+        ...commentColumns,
+        authorName: users.name
+      })
+      .from(comments)
+      .innerJoin(users, eq(comments.authorId, users.id))
+      .where(and(eq(comments.id, id), isNull(comments.deletedAt)));
+    
+    if (!commentData) return undefined;
+    
+    const { authorName, ...comment } = commentData;
+    return {
+      ...comment,
+      author: {
+        id: comment.authorId,
+        name: authorName
+      }
+    };
   }
   
   async updateComment(id: number, commentData: Partial<InsertComment>): Promise<Comment | undefined> {
     if (!commentData.body) {
-      const [comment] = await db.select().from(comments).where(eq(comments.id, id));
-      return comment;
+      return this.getComment(id);
     }
     
     const [updatedComment] = await db
       .update(comments)
-      .set({ body: commentData.body })
-      .where(eq(comments.id, id))
-      .returning();
+      .set({ body: commentData.body, bodyHtml: renderMarkdown(commentData.body) })
+      .where(and(eq(comments.id, id), isNull(comments.deletedAt)))
+      .returning(commentColumns);
     
     return updatedComment;
   }
   
   async deleteComment(id: number): Promise<boolean> {
+    // Move the comment to the trash
     const [deletedComment] = await db
-      .delete(comments)
-      .where(eq(comments.id, id))
-      .returning();
+      .update(comments)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(comments.id, id), isNull(comments.deletedAt)))
+      .returning(commentColumns);
     
     return !!deletedComment;
   }
   
-  async getComment(id: number): Promise<Comment | undefined> {
-    const [comment] = await db.select().from(comments).where(eq(comments.id, id));
+  async restoreComment(id: number): Promise<Comment | undefined> {
+    const [restoredComment] = await db
+      .update(comments)
+      .set({ deletedAt: null })
+      .where(and(eq(comments.id, id), isNotNull(comments.deletedAt)))
+      .returning(commentColumns);
+    
+    return restoredComment;
+  }
+  
+  async getComment(id: number, options: LookupOptions = {}): Promise<Comment | undefined> {
+    const [comment] = await db
+      .select(commentColumns)
+      .from(comments)
+      .where(options.includeDeleted ? eq(comments.id, id) : and(eq(comments.id, id), isNull(comments.deletedAt)));
     return comment;
   }
   
-  // Scheduled operations
-  async getPostsOlderThan(hours: number): Promise<Post[]> {
-    const cutoffTime = new Date();
-    cutoffTime.setHours(cutoffTime.getHours() - hours);
+  async getDeletedCommentsByAuthor(authorId: number): Promise<Comment[]> {
+    return await db
+      .select(commentColumns)
+      .from(comments)
+      .where(and(eq(comments.authorId, authorId), isNotNull(comments.deletedAt)))
+      .orderBy(desc(comments.deletedAt));
+  }
+  
+  // Token methods
+  async createRefreshToken(tokenData: InsertRefreshToken): Promise<RefreshToken> {
+    const [token] = await db.insert(refreshTokens).values(tokenData).returning();
+    return token;
+  }
+  
+  async getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(refreshTokens)
+      .where(eq(refreshTokens.tokenHash, tokenHash));
+    return token;
+  }
+  
+  async revokeRefreshToken(id: number): Promise<RefreshToken | undefined> {
+    // Checking and revoking in one statement lets only one of several concurrent rotations through
+    const [token] = await db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.id, id), isNull(refreshTokens.revokedAt)))
+      .returning();
+    return token;
+  }
+  
+  async revokeTokenFamily(familyId: string, until: Date): Promise<void> {
+    await db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.familyId, familyId), isNull(refreshTokens.revokedAt)));
+    
+    await db
+      .insert(revokedTokens)
+      .values({ familyId, expiresAt: until })
+      .onConflictDoUpdate({
+        target: revokedTokens.familyId,
+        set: { expiresAt: until }
+      });
+  }
+  
+  async isTokenFamilyRevoked(familyId: string): Promise<boolean> {
+    const [revoked] = await db
+      .select({ id: revokedTokens.id })
+      .from(revokedTokens)
+      .where(and(eq(revokedTokens.familyId, familyId), gt(revokedTokens.expiresAt, new Date())));
+    return !!revoked;
+  }
+  
+  async getActiveTokenFamilies(userId: number): Promise<string[]> {
+    const families = await db
+      .selectDistinct({ familyId: refreshTokens.familyId })
+      .from(refreshTokens)
+      .where(and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt)));
+    return families.map(family => family.familyId);
+  }
+  
+  async purgeExpiredTokens(time: Date): Promise<number> {
+    const purgedRefreshTokens = await db
+      .delete(refreshTokens)
+      .where(lt(refreshTokens.expiresAt, time))
+      .returning({ id: refreshTokens.id });
+    
+    const purgedRevocations = await db
+      .delete(revokedTokens)
+      .where(lt(revokedTokens.expiresAt, time))
+      .returning({ id: revokedTokens.id });
+    
+    const purgedResetTokens = await db
+      .delete(passwordResetTokens)
+      .where(or(lt(passwordResetTokens.expiresAt, time), isNotNull(passwordResetTokens.usedAt)))
+      .returning({ id: passwordResetTokens.id });
+    
+    const purgedVerificationTokens = await db
+      .delete(emailVerificationTokens)
+      .where(or(lt(emailVerificationTokens.expiresAt, time), isNotNull(emailVerificationTokens.usedAt)))
+      .returning({ id: emailVerificationTokens.id });
+    
+    return purgedRefreshTokens.length + purgedRevocations.length + purgedResetTokens.length + purgedVerificationTokens.length;
+  }
+  
+  // Password reset methods
+  async createPasswordResetToken(tokenData: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    // A new token replaces any the user still has outstanding
+    await db.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, tokenData.userId));
+    
+    const [token] = await db.insert(passwordResetTokens).values(tokenData).returning();
+    return token;
+  }
+  
+  async consumePasswordResetToken(tokenHash: string, time: Date): Promise<PasswordResetToken | undefined> {
+    // Marking the token used in the same statement that checks it keeps it single-use under concurrency
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: time })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, time)
+      ))
+      .returning();
+    return token;
+  }
+  
+  // Email verification methods
+  async createEmailVerificationToken(tokenData: InsertEmailVerificationToken): Promise<EmailVerificationToken> {
+    // A new token replaces any the user still has outstanding
+    await db.delete(emailVerificationTokens).where(eq(emailVerificationTokens.userId, tokenData.userId));
+    
+    const [token] = await db.insert(emailVerificationTokens).values(tokenData).returning();
+    return token;
+  }
+  
+  async consumeEmailVerificationToken(tokenHash: string, time: Date): Promise<EmailVerificationToken | undefined> {
+    const [token] = await db
+      .update(emailVerificationTokens)
+      .set({ usedAt: time })
+      .where(and(
+        eq(emailVerificationTokens.tokenHash, tokenHash),
+        isNull(emailVerificationTokens.usedAt),
+        gt(emailVerificationTokens.expiresAt, time)
+      ))
+      .returning();
+    return token;
+  }
+  
+  // Two-factor authentication methods
+  async getTwoFactorSecret(userId: number): Promise<TwoFactorSecret | undefined> {
+    const [twoFactor] = await db
+      .select()
+      .from(twoFactorSecrets)
+      .where(eq(twoFactorSecrets.userId, userId));
+    return twoFactor;
+  }
+  
+  async saveTwoFactorSecret(userId: number, secret: string): Promise<TwoFactorSecret> {
+    // Starting enrollment again replaces any pending secret
+    const [twoFactor] = await db
+      .insert(twoFactorSecrets)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: twoFactorSecrets.userId,
+        set: { secret, enabledAt: null, lastUsedStep: null, createdAt: new Date() }
+      })
+      .returning();
+    return twoFactor;
+  }
+  
+  async enableTwoFactor(userId: number, time: Date): Promise<TwoFactorSecret | undefined> {
+    const [twoFactor] = await db
+      .update(twoFactorSecrets)
+      .set({ enabledAt: sql`coalesce(${twoFactorSecrets.enabledAt}, ${time})` })
+      .where(eq(twoFactorSecrets.userId, userId))
+      .returning();
+    return twoFactor;
+  }
+  
+  async useTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    // Checked and recorded in one statement so a code can't be replayed concurrently
+    const updated = await db
+      .update(twoFactorSecrets)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorSecrets.userId, userId),
+        or(isNull(twoFactorSecrets.lastUsedStep), lt(twoFactorSecrets.lastUsedStep, step))
+      ))
+      .returning({ id: twoFactorSecrets.id });
+    return updated.length > 0;
+  }
+  
+  async deleteTwoFactor(userId: number): Promise<void> {
+    await db.delete(twoFactorSecrets).where(eq(twoFactorSecrets.userId, userId));
+    await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+  }
+  
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    
+    if (codeHashes.length > 0) {
+      await db.insert(recoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    }
+  }
+  
+  async consumeRecoveryCode(userId: number, codeHash: string, time: Date): Promise<boolean> {
+    const consumed = await db
+      .update(recoveryCodes)
+      .set({ usedAt: time })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt)
+      ))
+      .returning({ id: recoveryCodes.id });
+    return consumed.length > 0;
+  }
+  
+  async countRecoveryCodes(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return Number(result.count);
+  }
+  
+  // API key methods
+  async createApiKey(keyData: InsertApiKey): Promise<ApiKey> {
+    const [key] = await db.insert(apiKeys).values(keyData).returning();
+    return key;
+  }
+  
+  async getApiKeysByUser(userId: number): Promise<ApiKey[]> {
+    return db
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .orderBy(desc(apiKeys.createdAt), desc(apiKeys.id));
+  }
+  
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [key] = await db
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.keyHash, keyHash), isNull(apiKeys.revokedAt)));
+    return key;
+  }
+  
+  async revokeApiKey(id: number, userId: number, time: Date): Promise<ApiKey | undefined> {
+    const [key] = await db
+      .update(apiKeys)
+      .set({ revokedAt: time })
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .returning();
+    return key;
+  }
+  
+  async touchApiKey(id: number, time: Date): Promise<void> {
+    await db.update(apiKeys).set({ lastUsedAt: time }).where(eq(apiKeys.id, id));
+  }
+  
+  // Webhook methods
+  async createWebhook(webhookData: WebhookInput, userId: number, secret: string): Promise<Webhook> {
+    const [webhook] = await db
+      .insert(webhooks)
+      .values({ ...webhookData, userId, secret })
+      .returning();
+    return webhook;
+  }
+  
+  async getWebhooks(): Promise<Webhook[]> {
+    return db.select().from(webhooks).orderBy(asc(webhooks.id));
+  }
+  
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook;
+  }
+  
+  async updateWebhook(id: number, update: Partial<WebhookInput>): Promise<Webhook | undefined> {
+    const [webhook] = await db
+      .update(webhooks)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(webhooks.id, id))
+      .returning();
+    return webhook;
+  }
+  
+  async deleteWebhook(id: number): Promise<boolean> {
+    await db.delete(webhookDeliveries).where(eq(webhookDeliveries.webhookId, id));
+    const deleted = await db
+      .delete(webhooks)
+      .where(eq(webhooks.id, id))
+      .returning({ id: webhooks.id });
+    return deleted.length > 0;
+  }
+  
+  async getWebhooksForEvent(event: WebhookEvent): Promise<Webhook[]> {
+    return db
+      .select()
+      .from(webhooks)
+      .where(and(eq(webhooks.active, true), arrayContains(webhooks.events, [event])));
+  }
+  
+  async createWebhookDelivery(deliveryData: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [delivery] = await db.insert(webhookDeliveries).values(deliveryData).returning();
+    return delivery;
+  }
+  
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+  
+  async getDueWebhookDeliveries(time: Date, limit: number): Promise<WebhookDelivery[]> {
+    return db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, time)))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit);
+  }
+  
+  async claimWebhookDelivery(id: number, time: Date, leaseUntil: Date): Promise<WebhookDelivery | undefined> {
+    // Pushing nextAttemptAt out in the same statement keeps two workers from sending the same attempt
+    const [delivery] = await db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: leaseUntil })
+      .where(and(
+        eq(webhookDeliveries.id, id),
+        eq(webhookDeliveries.status, "pending"),
+        lte(webhookDeliveries.nextAttemptAt, time)
+      ))
+      .returning();
+    return delivery;
+  }
+  
+  async updateWebhookDelivery(id: number, update: WebhookDeliveryUpdate): Promise<void> {
+    await db.update(webhookDeliveries).set(update).where(eq(webhookDeliveries.id, id));
+  }
+  
+  async purgeWebhookDeliveriesBefore(time: Date): Promise<number> {
+    const purged = await db
+      .delete(webhookDeliveries)
+      .where(and(ne(webhookDeliveries.status, "pending"), lt(webhookDeliveries.createdAt, time)))
+      .returning({ id: webhookDeliveries.id });
+    return purged.length;
+  }
+  
+  // Notification methods
+  async createNotification(notificationData: InsertNotification): Promise<Notification | undefined> {
+    // The unique (post, expiry) index turns a repeated expiry warning into a no-op
+    const [notification] = await db
+      .insert(notifications)
+      .values(notificationData)
+      .onConflictDoNothing()
+      .returning();
+    return notification;
+  }
+  
+  async getNotifications(userId: number, options: NotificationOptions): Promise<NotificationWithDetails[]> {
+    const conditions = [eq(notifications.userId, userId)];
+    if (options.unreadOnly) conditions.push(isNull(notifications.readAt));
+    
+    const rows = await db
+      .select({
+        ...getTableColumns(notifications),
+        actorName: users.name,
+        postTitle: posts.title
+      })
+      .from(notifications)
+      .leftJoin(users, eq(users.id, notifications.actorId))
+      .leftJoin(posts, eq(posts.id, notifications.postId))
+      .where(and(...conditions))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(options.limit);
+    
+    return rows.map(({ actorName, postTitle, ...notification }) => ({
+      ...notification,
+      actor: notification.actorId !== null && actorName !== null ? { id: notification.actorId, name: actorName } : null,
+      post: postTitle !== null ? { id: notification.postId, title: postTitle } : null
+    }));
+  }
+  
+  async countUnreadNotifications(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return Number(result.count);
+  }
+  
+  async markNotificationsRead(userId: number, ids: number[] | undefined, time: Date): Promise<number> {
+    const conditions = [eq(notifications.userId, userId), isNull(notifications.readAt)];
+    if (ids) {
+      if (ids.length === 0) return 0;
+      conditions.push(inArray(notifications.id, ids));
+    }
+    
+    const marked = await db
+      .update(notifications)
+      .set({ readAt: time })
+      .where(and(...conditions))
+      .returning({ id: notifications.id });
+    return marked.length;
+  }
+  
+  // Audit log methods
+  async createAuditLog(entryData: InsertAuditLog): Promise<AuditLog> {
+    const [entry] = await db.insert(auditLogs).values(entryData).returning();
+    return entry;
+  }
+  
+  async getAuditLogs(limit: number): Promise<AuditLog[]> {
+    return db
+      .select()
+      .from(auditLogs)
+      .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+      .limit(limit);
+  }
+  
+  // Attachment methods
+  async createAttachment(attachmentData: InsertAttachment): Promise<Attachment> {
+    const [attachment] = await db.insert(attachments).values(attachmentData).returning();
+    return attachment;
+  }
+  
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    const [attachment] = await db.select().from(attachments).where(eq(attachments.id, id));
+    return attachment;
+  }
+  
+  async getAttachmentsByPostId(postId: number): Promise<Attachment[]> {
+    return await db
+      .select()
+      .from(attachments)
+      .where(eq(attachments.postId, postId))
+      .orderBy(asc(attachments.id));
+  }
+  
+  async linkAttachments(ids: number[], postId: number, uploaderId: number): Promise<number> {
+    if (ids.length === 0) return 0;
+    
+    // Only unlinked uploads of the same user can be claimed
+    const linked = await db
+      .update(attachments)
+      .set({ postId })
+      .where(and(
+        inArray(attachments.id, ids),
+        isNull(attachments.postId),
+        eq(attachments.uploaderId, uploaderId)
+      ))
+      .returning({ id: attachments.id });
+    
+    return linked.length;
+  }
+  
+  async deleteAttachment(id: number): Promise<boolean> {
+    const [deletedAttachment] = await db
+      .delete(attachments)
+      .where(eq(attachments.id, id))
+      .returning({ id: attachments.id });
     
+    return !!deletedAttachment;
+  }
+  
+  async getOrphanedAttachments(before: Date): Promise<Attachment[]> {
     return await db
       .select()
+      .from(attachments)
+      .where(or(
+        and(isNull(attachments.postId), lt(attachments.createdAt, before)),
+        and(
+          isNotNull(attachments.postId),
+          sql`NOT EXISTS (SELECT 1 FROM ${posts} WHERE ${posts.id} = ${attachments.postId})`
+        )
+      ));
+  }
+  
+  // Search methods
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const postRank = sql<number>`ts_rank(${posts.searchVector}, ${tsQuery})`;
+    const commentRank = sql<number>`ts_rank(${comments.searchVector}, ${tsQuery})`;
+    
+    const postResults = await db
+      .select({
+        id: posts.id,
+        postId: posts.id,
+        title: posts.title,
+        snippet: headline(posts.body, tsQuery),
+        rank: postRank,
+        createdAt: posts.createdAt
+      })
+      .from(posts)
+      .where(and(
+        sql`${posts.searchVector} @@ ${tsQuery}`,
+        isNull(posts.deletedAt),
+        eq(posts.status, "published"),
+        options.authorId ? eq(posts.authorId, options.authorId) : undefined
+      ))
+      .orderBy(desc(postRank))
+      .limit(options.limit);
+    
+    const commentResults = await db
+      .select({
+        id: comments.id,
+        postId: comments.postId,
+        title: posts.title,
+        snippet: headline(comments.body, tsQuery),
+        rank: commentRank,
+        createdAt: comments.createdAt
+      })
+      .from(comments)
+      .innerJoin(posts, eq(comments.postId, posts.id))
+      .where(and(
+        sql`${comments.searchVector} @@ ${tsQuery}`,
+        isNull(comments.deletedAt),
+        isNull(posts.deletedAt),
+        eq(posts.status, "published"),
+        options.authorId ? eq(comments.authorId, options.authorId) : undefined
+      ))
+      .orderBy(desc(commentRank))
+      .limit(options.limit);
+    
+    return [
+      ...postResults.map(result => ({ ...result, type: "post" as const, rank: Number(result.rank) })),
+      ...commentResults.map(result => ({ ...result, type: "comment" as const, rank: Number(result.rank) }))
+    ]
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, options.limit);
+  }
+  
+  // Scheduled operations
+  async getPostsExpiringBefore(time: Date): Promise<Post[]> {
+    return await db
+      .select(postColumns)
+      .from(posts)
+      .where(and(lt(posts.expiresAt, time), isNull(posts.deletedAt), eq(posts.status, "published")));
+  }
+  
+  async publishDuePosts(time: Date): Promise<Post[]> {
+    const duePosts = await db
+      .select(postColumns)
+      .from(posts)
+      .where(and(eq(posts.status, "scheduled"), lte(posts.publishAt, time), isNull(posts.deletedAt)));
+    
+    const published: Post[] = [];
+    for (const post of duePosts) {
+      const { status, publishAt, createdAt, expiresAt } = publishAs(post, post.publishAt!);
+      
+      // Guard on status so a post rescheduled or unpublished meanwhile is left alone
+      const [publishedPost] = await db
+        .update(posts)
+        .set({ status, publishAt, createdAt, expiresAt })
+        .where(and(eq(posts.id, post.id), eq(posts.status, "scheduled")))
+        .returning(postColumns);
+      
+      if (publishedPost) {
+        published.push(publishedPost);
+      }
+    }
+    
+    return published;
+  }
+  
+  async purgeDeletedBefore(time: Date): Promise<{ posts: number; comments: number }> {
+    const trashedPosts = await db
+      .select({ id: posts.id })
       .from(posts)
-      .where(lt(posts.createdAt, cutoffTime));
+      .where(lt(posts.deletedAt, time));
+    
+    let purgedPosts = 0;
+    for (const post of trashedPosts) {
+      if (await this.purgePost(post.id)) purgedPosts++;
+    }
+    
+    const purgedComments = await db
+      .delete(comments)
+      .where(lt(comments.deletedAt, time))
+      .returning({ id: comments.id });
+    
+    return { posts: purgedPosts, comments: purgedComments.length };
   }
 }
 
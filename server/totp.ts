@@ -0,0 +1,107 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// RFC 6238 time-based one-time passwords, compatible with common authenticator apps
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept codes from one step either side to tolerate clock drift
+const TOTP_DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+// HOTP value (RFC 4226) for a counter
+function hotp(secret: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac("sha1", secret).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return code.toString().padStart(TOTP_DIGITS, "0");
+}
+
+// A new random 160-bit secret, base32-encoded as authenticator apps expect
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+// URI for enrolling the secret in an authenticator app, usually shown as a QR code
+export function totpUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+// Returns the time step the code matched, so callers can reject replays of the same step
+export function verifyTotp(secret: string, code: string, time = Date.now()): number | undefined {
+  if (!/^\d+$/.test(code) || code.length !== TOTP_DIGITS) return undefined;
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(time / 1000 / TOTP_STEP_SECONDS);
+
+  for (let step = currentStep - TOTP_DRIFT_STEPS; step <= currentStep + TOTP_DRIFT_STEPS; step++) {
+    if (timingSafeEqual(Buffer.from(hotp(key, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+
+  return undefined;
+}
+
+// Single-use recovery codes, formatted as xxxxx-xxxxx for readability
+export function generateRecoveryCodes(count = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const code = randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+// Recovery codes are compared case- and separator-insensitively
+export function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase().replace(/[^0-9a-f]/g, "");
+}
@@ -0,0 +1,141 @@
+import { createHmac, randomBytes } from "crypto";
+import { storage } from "./storage";
+import type { WebhookDelivery, WebhookEvent } from "@shared/schema";
+
+// Receivers that take longer than this count as a failed attempt
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+// Failed attempts are retried after 1, 2, 4, 8 and 16 minutes before the delivery is given up
+const MAX_DELIVERY_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+// A claimed attempt is reserved for this long, so a crashed worker's attempt is eventually retried
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+
+const RETRY_BATCH_SIZE = 50;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+// Receivers verify a delivery by computing HMAC-SHA256 over "<timestamp>.<body>" with the
+// webhook's secret and comparing it to the X-Webhook-Signature header
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+}
+
+// Send one attempt of a delivery and record the outcome
+async function attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+  const now = new Date();
+  const claimed = await storage.claimWebhookDelivery(delivery.id, now, new Date(now.getTime() + DELIVERY_LEASE_MS));
+  if (!claimed) return;
+
+  const webhook = await storage.getWebhook(claimed.webhookId);
+  if (!webhook?.active) {
+    await storage.updateWebhookDelivery(claimed.id, {
+      status: "failed",
+      nextAttemptAt: null,
+      error: "Webhook is disabled"
+    });
+    return;
+  }
+
+  const body = JSON.stringify({
+    id: claimed.id,
+    event: claimed.event,
+    createdAt: claimed.createdAt.toISOString(),
+    data: claimed.payload
+  });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const attempts = claimed.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Blog-Webhooks/1.0",
+        "X-Webhook-Event": claimed.event,
+        "X-Webhook-Delivery": String(claimed.id),
+        "X-Webhook-Timestamp": timestamp,
+        "X-Webhook-Signature": signWebhookPayload(webhook.secret, timestamp, body)
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+    responseStatus = response.status;
+    // Only the status matters; discard the body so the connection is released
+    await response.body?.cancel();
+    if (!response.ok) {
+      error = `Receiver responded with ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  if (!error) {
+    await storage.updateWebhookDelivery(claimed.id, {
+      status: "succeeded",
+      attempts,
+      nextAttemptAt: null,
+      responseStatus,
+      error: null,
+      deliveredAt: new Date()
+    });
+  } else if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+    await storage.updateWebhookDelivery(claimed.id, {
+      status: "failed",
+      attempts,
+      nextAttemptAt: null,
+      responseStatus,
+      error
+    });
+  } else {
+    await storage.updateWebhookDelivery(claimed.id, {
+      attempts,
+      nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)),
+      responseStatus,
+      error
+    });
+  }
+}
+
+// Queue an event for every webhook subscribed to it and send the first attempts in the background.
+// Never throws: a webhook problem must not fail the request that caused the event.
+export async function emitWebhookEvent(event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+  try {
+    const subscribers = await storage.getWebhooksForEvent(event);
+
+    for (const webhook of subscribers) {
+      const delivery = await storage.createWebhookDelivery({
+        webhookId: webhook.id,
+        event,
+        payload: data,
+        nextAttemptAt: new Date()
+      });
+      attemptDelivery(delivery).catch(error => {
+        console.error(`Error delivering webhook ${delivery.id}:`, error);
+      });
+    }
+  } catch (error) {
+    console.error(`Error queueing webhook event ${event}:`, error);
+  }
+}
+
+// Send attempts whose backoff has elapsed; returns how many were due
+export async function retryWebhookDeliveries(time: Date = new Date()): Promise<number> {
+  const due = await storage.getDueWebhookDeliveries(time, RETRY_BATCH_SIZE);
+
+  for (const delivery of due) {
+    await attemptDelivery(delivery);
+  }
+
+  return due.length;
+}
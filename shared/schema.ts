@@ -1,8 +1,18 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, index, uniqueIndex, customType } from "drizzle-orm/pg-core";
+import { relations, sql, type SQL } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Postgres full-text search document
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Roles in increasing order of privilege
+export const USER_ROLES = ["user", "moderator", "admin"] as const;
+
 // User model
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -10,29 +20,118 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
   image: text("image"),
+  role: text("role", { enum: USER_ROLES }).notNull().default("user"),
+  // Set once the user follows the link sent to their email address
+  emailVerifiedAt: timestamp("email_verified_at"),
 });
 
+// Roles are only granted by admins and emails only verified by link, never on registration
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  role: true,
+  emailVerifiedAt: true,
+});
+
+// Users edit their own profile; changing the email or password needs the current password
+export const updateProfileSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").optional(),
+  image: z.string().url().nullable().optional(),
+  email: z.string().email().optional(),
+  password: z.string().min(8, "Password must be at least 8 characters").optional(),
+  currentPassword: z.string().optional(),
+}).refine(
+  data => (data.email === undefined && data.password === undefined) || !!data.currentPassword,
+  { message: "Current password is required to change email or password", path: ["currentPassword"] }
+);
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(USER_ROLES),
 });
 
+// Drafts are private to their author; scheduled posts are published by the scheduler at publishAt
+export const POST_STATUSES = ["draft", "scheduled", "published"] as const;
+
 // Post model
 export const posts = pgTable("posts", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
+  // Markdown source; bodyHtml and excerpt are rendered from it on every write
   body: text("body").notNull(),
+  bodyHtml: text("body_html"),
+  excerpt: text("excerpt"),
   authorId: integer("author_id").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  status: text("status", { enum: POST_STATUSES }).notNull().default("published"),
+  // When a scheduled post goes live
+  publishAt: timestamp("publish_at"),
+  // Null means the post never expires
+  expiresAt: timestamp("expires_at"),
+  // Set when the post is moved to the trash
+  deletedAt: timestamp("deleted_at"),
+  // Maintained by Postgres; titles rank above body text
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    (): SQL => sql`setweight(to_tsvector('english', coalesce(${posts.title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${posts.body}, '')), 'B')`
+  ),
+}, (table) => [
+  index("posts_search_idx").using("gin", table.searchVector),
+]);
+
+// Lifetime applied when a post is created without an explicit TTL
+export const DEFAULT_POST_TTL_HOURS = 24;
+export const MAX_POST_TTL_HOURS = 24 * 365;
+export const MAX_POST_BODY_LENGTH = 100000;
 
 export const insertPostSchema = createInsertSchema(posts).omit({
   id: true,
+  bodyHtml: true,
+  excerpt: true,
   authorId: true,
   createdAt: true,
+  updatedAt: true,
+  expiresAt: true,
+  deletedAt: true,
 }).extend({
+  body: z.string().max(MAX_POST_BODY_LENGTH, `Posts can be at most ${MAX_POST_BODY_LENGTH} characters`),
   tags: z.array(z.string()).min(1, "At least one tag is required"),
+  // Hours until the post expires; null publishes an evergreen post
+  ttlHours: z.number().int().min(1).max(MAX_POST_TTL_HOURS).nullable().optional(),
+  status: z.enum(POST_STATUSES).optional(),
+  publishAt: z.coerce.date().nullable().optional(),
+  // Uploaded attachments to link to the post
+  attachmentIds: z.array(z.number().int().positive()).optional(),
+});
+
+// Body for extending a post's lifetime; the post then expires this many hours from now
+export const extendPostSchema = z.object({
+  hours: z.number().int().min(1).max(MAX_POST_TTL_HOURS).default(DEFAULT_POST_TTL_HOURS),
+  // From the link in an expiry warning email, in place of signing in as the author
+  token: z.string().optional(),
 });
 
+// Query string for listing posts; tag accepts repeated or comma-separated values
+export const postQuerySchema = z.object({
+  tag: z.union([z.string(), z.array(z.string())]).optional()
+    .transform(value => [value ?? []].flat()
+      .flatMap(tag => tag.split(","))
+      .map(tag => tag.trim().toLowerCase())
+      .filter(tag => tag !== "")),
+  tag_mode: z.enum(["any", "all"]).default("any"),
+  author_id: z.coerce.number().int().positive().optional(),
+  created_after: z.coerce.date().optional(),
+  created_before: z.coerce.date().optional(),
+  sort: z.enum(["newest", "oldest", "most_commented"]).default("newest"),
+  page: z.coerce.number().int().min(1).default(1),
+  per_page: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+}).refine(
+  query => !query.created_after || !query.created_before || query.created_after <= query.created_before,
+  { message: "created_after must not be later than created_before", path: ["created_after"] }
+).refine(
+  query => !query.cursor || query.sort !== "most_commented",
+  { message: "Cursor pagination is not supported when sorting by most_commented", path: ["cursor"] }
+);
+
 // Tag model
 export const tags = pgTable("tags", {
   id: serial("id").primaryKey(),
@@ -57,24 +156,357 @@ export const insertPostTagSchema = createInsertSchema(postTags).omit({
 // Comment model
 export const comments = pgTable("comments", {
   id: serial("id").primaryKey(),
+  // Markdown source and its sanitized rendering
   body: text("body").notNull(),
+  bodyHtml: text("body_html"),
   authorId: integer("author_id").notNull(),
   postId: integer("post_id").notNull(),
+  // Null for top-level comments
+  parentId: integer("parent_id"),
+  // 0 for top-level comments, parent depth + 1 for replies
+  depth: integer("depth").notNull().default(0),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+  // Set when the comment is moved to the trash
+  deletedAt: timestamp("deleted_at"),
+  // Maintained by Postgres
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    (): SQL => sql`to_tsvector('english', coalesce(${comments.body}, ''))`
+  ),
+}, (table) => [
+  index("comments_search_idx").using("gin", table.searchVector),
+]);
 
+// Replies are created through their parent comment, which sets parentId and depth
 export const insertCommentSchema = createInsertSchema(comments).omit({
   id: true,
+  bodyHtml: true,
   authorId: true,
+  parentId: true,
+  depth: true,
+  createdAt: true,
+  deletedAt: true,
+});
+
+// Deepest reply level; replies to comments at this depth are rejected
+export const MAX_COMMENT_DEPTH = 5;
+
+// Snapshot of a post's title and body; revision 1 is the original, numbered per post
+export const postRevisions = pgTable("post_revisions", {
+  id: serial("id").primaryKey(),
+  postId: integer("post_id").notNull(),
+  revision: integer("revision").notNull(),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  editorId: integer("editor_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("post_revisions_post_revision_idx").on(table.postId, table.revision),
+]);
+
+// Files uploaded by a user; postId stays null until the attachment is linked to a post
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  postId: integer("post_id"),
+  uploaderId: integer("uploader_id").notNull(),
+  // Key used by the file storage adapter
+  storageKey: text("storage_key").notNull().unique(),
+  filename: text("filename").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAttachmentSchema = createInsertSchema(attachments).omit({
+  id: true,
+  postId: true,
+  createdAt: true,
+});
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+];
+
+export const markdownPreviewSchema = z.object({
+  body: z.string().max(MAX_POST_BODY_LENGTH),
+});
+
+export const revisionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1),
+});
+
+// Refresh tokens are stored hashed; every rotation stays in the family of the original login
+export const refreshTokens = pgTable("refresh_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  familyId: text("family_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+export const insertRefreshTokenSchema = createInsertSchema(refreshTokens).omit({
+  id: true,
+  createdAt: true,
+  revokedAt: true,
+});
+
+// Token families whose access tokens must be rejected until they would have expired anyway
+export const revokedTokens = pgTable("revoked_tokens", {
+  id: serial("id").primaryKey(),
+  familyId: text("family_id").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// One-time password reset tokens, stored hashed; usedAt is set when the token is redeemed
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  usedAt: timestamp("used_at"),
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
+  id: true,
+  createdAt: true,
+  usedAt: true,
+});
+
+// One-time email verification tokens, stored hashed like password reset tokens
+export const emailVerificationTokens = pgTable("email_verification_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  usedAt: timestamp("used_at"),
+});
+
+export const insertEmailVerificationTokenSchema = createInsertSchema(emailVerificationTokens).omit({
+  id: true,
+  createdAt: true,
+  usedAt: true,
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+// TOTP secrets live apart from users so they never travel with user objects; enabledAt is
+// null while enrollment waits for the first code, lastUsedStep blocks replaying a code
+export const twoFactorSecrets = pgTable("two_factor_secrets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  secret: text("secret").notNull(),
+  enabledAt: timestamp("enabled_at"),
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Single-use fallbacks for a lost authenticator, stored hashed
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+}, (table) => [
+  index("recovery_codes_user_idx").on(table.userId),
+]);
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
+});
+
+// The second login step takes either an authenticator code or a recovery code
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().trim().optional(),
+  recoveryCode: z.string().trim().optional(),
+}).refine(
+  data => !!data.code || !!data.recoveryCode,
+  { message: "An authenticator code or recovery code is required", path: ["code"] }
+);
+
+// Turning 2FA off needs the password plus an authenticator or recovery code
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1),
+  code: z.string().trim().min(1),
+});
+
+// A read key may only make safe (GET/HEAD/OPTIONS) requests; a write key may do anything its owner can
+export const API_KEY_SCOPES = ["read", "write"] as const;
+
+// Personal API keys for scripts, stored hashed; prefix is the visible start of the key so
+// owners can tell their keys apart
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  scope: text("scope", { enum: API_KEY_SCOPES }).notNull().default("read"),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+}, (table) => [
+  index("api_keys_user_idx").on(table.userId),
+]);
+
+export const insertApiKeySchema = createInsertSchema(apiKeys).omit({
+  id: true,
+  lastUsedAt: true,
+  createdAt: true,
+  revokedAt: true,
+});
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scope: z.enum(API_KEY_SCOPES).default("read"),
+});
+
+// Content events other services can subscribe to
+export const WEBHOOK_EVENTS = [
+  "post.created",
+  "post.updated",
+  "post.deleted",
+  "post.expired",
+  "comment.created",
+] as const;
+
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "succeeded", "failed"] as const;
+
+// Outbound webhook subscriptions; the secret signs every delivery so receivers can verify it
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  // The administrator who created the subscription
+  userId: integer("user_id").notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(),
+  events: text("events", { enum: WEBHOOK_EVENTS }).array().notNull(),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// One row per event sent to a webhook, kept as a delivery log; pending deliveries are
+// attempted at nextAttemptAt, backing off until they succeed or run out of attempts
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull(),
+  event: text("event", { enum: WEBHOOK_EVENTS }).notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  status: text("status", { enum: WEBHOOK_DELIVERY_STATUSES }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+}, (table) => [
+  index("webhook_deliveries_webhook_idx").on(table.webhookId, table.createdAt),
+  index("webhook_deliveries_due_idx").on(table.status, table.nextAttemptAt),
+]);
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  responseStatus: true,
+  error: true,
+  createdAt: true,
+  deliveredAt: true,
+});
+
+export const webhookSchema = z.object({
+  url: z.string().url().refine(
+    url => /^https?:\/\//i.test(url),
+    "Webhook URLs must use http or https"
+  ),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Subscribe to at least one event"),
+  active: z.boolean().optional(),
+});
+
+export const NOTIFICATION_TYPES = ["comment", "post_expiring"] as const;
+
+// In-app notifications; postExpiresAt records which expiry time a warning was about,
+// so each post is warned once per expiry time even if the scheduler sees it again
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  // The user being notified
+  userId: integer("user_id").notNull(),
+  type: text("type", { enum: NOTIFICATION_TYPES }).notNull(),
+  postId: integer("post_id").notNull(),
+  commentId: integer("comment_id"),
+  // Who caused the notification, such as the commenter
+  actorId: integer("actor_id"),
+  postExpiresAt: timestamp("post_expires_at"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("notifications_user_idx").on(table.userId, table.createdAt),
+  uniqueIndex("notifications_post_expiry_idx").on(table.postId, table.postExpiresAt),
+]);
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
+export const notificationQuerySchema = z.object({
+  unread: z.enum(["true", "false"]).optional().transform(value => value === "true"),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Without ids, every notification is marked as read
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.number().int().positive()).optional(),
+});
+
+// Security-relevant events such as account lockouts, kept for administrators to review
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  action: text("action").notNull(),
+  // The affected user, when the event concerns a known account
+  userId: integer("user_id"),
+  ip: text("ip"),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("audit_logs_created_at_idx").on(table.createdAt),
+]);
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
+  id: true,
   createdAt: true,
 });
 
 // Schema types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UserRole = typeof USER_ROLES[number];
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
 
-export type Post = typeof posts.$inferSelect;
+// The generated search vectors never leave the database layer
+export type Post = Omit<typeof posts.$inferSelect, "searchVector">;
 export type InsertPost = z.infer<typeof insertPostSchema>;
+export type PostStatus = typeof POST_STATUSES[number];
+export type PostQuery = z.infer<typeof postQuerySchema>;
+export type ExtendPost = z.infer<typeof extendPostSchema>;
 
 export type Tag = typeof tags.$inferSelect;
 export type InsertTag = z.infer<typeof insertTagSchema>;
@@ -82,9 +514,52 @@ export type InsertTag = z.infer<typeof insertTagSchema>;
 export type PostTag = typeof postTags.$inferSelect;
 export type InsertPostTag = z.infer<typeof insertPostTagSchema>;
 
-export type Comment = typeof comments.$inferSelect;
+export type Comment = Omit<typeof comments.$inferSelect, "searchVector">;
 export type InsertComment = z.infer<typeof insertCommentSchema>;
 
+export type PostRevision = typeof postRevisions.$inferSelect;
+
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type InsertRefreshToken = z.infer<typeof insertRefreshTokenSchema>;
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+
+export type TwoFactorSecret = typeof twoFactorSecrets.$inferSelect;
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+};
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+// What owners see when listing keys; the hash never leaves the server
+export type PublicApiKey = Omit<ApiKey, "keyHash">;
+
+export type Webhook = typeof webhooks.$inferSelect;
+export type WebhookInput = z.infer<typeof webhookSchema>;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+// Subscriptions as returned by the API; the signing secret is only shown when it is created
+export type PublicWebhook = Omit<Webhook, "secret">;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+
+export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect;
+export type InsertEmailVerificationToken = z.infer<typeof insertEmailVerificationTokenSchema>;
+
 // Define relations
 export const usersRelations = relations(users, ({ many }) => ({
   posts: many(posts),
@@ -136,9 +611,87 @@ export type PostWithDetails = Post & {
   commentCount: number;
 };
 
+export type NotificationWithDetails = Notification & {
+  actor: {
+    id: number;
+    name: string;
+  } | null;
+  post: {
+    id: number;
+    title: string;
+  } | null;
+};
+
+// Public view of a user; email and password are never exposed
+export type UserProfile = Pick<User, "id" | "name" | "image" | "role"> & {
+  postCount: number;
+  commentCount: number;
+};
+
+export type PostRevisionWithEditor = PostRevision & {
+  editor: {
+    id: number;
+    name: string;
+  };
+};
+
+// One line of a line-based diff between two revisions
+export type DiffLine = {
+  type: "added" | "removed" | "unchanged";
+  text: string;
+};
+
+export type RevisionDiff = {
+  from: number;
+  to: number;
+  title: DiffLine[];
+  body: DiffLine[];
+};
+
 export type CommentWithAuthor = Comment & {
   author: {
     id: number;
     name: string;
   };
 };
+
+// Comments in a thread; trashed comments with visible replies stay as placeholders with an empty body
+export type CommentThread = CommentWithAuthor & {
+  replies: CommentThread[];
+};
+
+// Full-text search hit; snippet is HTML-escaped with matches wrapped in <mark>
+export type SearchResult = {
+  type: "post" | "comment";
+  id: number;
+  postId: number;
+  title: string;
+  snippet: string;
+  rank: number;
+  createdAt: Date;
+};
+
+// Live updates pushed over the WebSocket at /ws. Clients subscribe to "posts" for the post
+// list or "post:<id>" for one post and its comments; events only carry ids and clients
+// refetch whatever changed.
+export const REALTIME_EVENTS = [
+  "post.created",
+  "post.updated",
+  "post.deleted",
+  "comment.created",
+  "comment.updated",
+  "comment.deleted",
+] as const;
+
+export const REALTIME_CHANNEL_PATTERN = /^(posts|post:\d+)$/;
+
+export type RealtimeEvent = typeof REALTIME_EVENTS[number];
+
+export type RealtimeClientMessage = {
+  type: "subscribe" | "unsubscribe";
+  channel: string;
+};
+
+export type RealtimeServerMessage =
+  | { type: "event"; channel: string; event: RealtimeEvent; data: { postId: number; commentId?: number } }
+  | { type: "error"; message: string };